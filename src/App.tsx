@@ -10,6 +10,7 @@ import { ProfilePage } from './pages/ProfilePage';
 import { PlaylistsPage } from './pages/PlaylistsPage';
 import { PlaylistDetailPage } from './pages/PlaylistDetailPage';
 import { FavoritesPage } from './pages/FavoritesPage';
+import { HistoryPage } from './pages/HistoryPage';
 import { ArtistDashboardPage } from './pages/ArtistDashboardPage';
 import { MusicUploadPage } from './pages/MusicUploadPage';
 import { BrowsePage } from './pages/BrowsePage';
@@ -72,6 +73,7 @@ function App() {
               <Route path="/playlists" element={<PlaylistsPage />} />
               <Route path="/playlists/:id" element={<PlaylistDetailPage />} />
               <Route path="/favorites" element={<FavoritesPage />} />
+              <Route path="/history" element={<HistoryPage />} />
             </Route>
             
             {/* These routes are specific to users with the ARTIST role */}
@@ -0,0 +1,115 @@
+import React, { useEffect } from 'react';
+import { FiX } from 'react-icons/fi';
+import { Button } from '../ui/Button';
+import { useShortcutStore, SHORTCUT_ACTIONS, formatKey } from '../../store/shortcutStore';
+
+/**
+ * KeyboardShortcutsOverlay Component
+ *
+ * A modal overlay that lists every keyboard shortcut and lets the user remap
+ * them. Opened with the "show keyboard shortcuts" binding (? by default).
+ *
+ * Features:
+ * - Lists every action with its current key
+ * - Click a key, then press a new key to remap it (Esc cancels)
+ * - Keys already in use are swapped with the remapped action
+ * - Reset all bindings to their defaults
+ */
+export const KeyboardShortcutsOverlay: React.FC = () => {
+  const {
+    bindings,
+    isHelpOpen,
+    capturingAction,
+    setHelpOpen,
+    setBinding,
+    resetBindings,
+    startCapture,
+    cancelCapture
+  } = useShortcutStore();
+
+  /**
+   * While remapping, the next key press becomes the new binding
+   */
+  useEffect(() => {
+    if (!capturingAction) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.key === 'Escape') {
+        cancelCapture();
+      } else if (!['Shift', 'Control', 'Alt', 'Meta'].includes(event.key)) {
+        setBinding(capturingAction, event.key);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturingAction, setBinding, cancelCapture]);
+
+  if (!isHelpOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-macchiato-crust/70 backdrop-blur-sm z-[95] flex items-center justify-center p-4 animate-fadeIn"
+      onClick={() => setHelpOpen(false)}
+    >
+      <div
+        className="w-full max-w-lg max-h-[80vh] flex flex-col bg-macchiato-base/95 border border-macchiato-overlay0/30 rounded-lg shadow-neumorphic-dark overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="keyboard-shortcuts-title"
+      >
+        {/* Header with title and close button */}
+        <div className="flex items-center justify-between p-4 border-b border-macchiato-overlay0/20">
+          <h2 id="keyboard-shortcuts-title" className="text-macchiato-text font-medium text-lg">
+            Keyboard shortcuts
+          </h2>
+          <button
+            onClick={() => setHelpOpen(false)}
+            className="text-macchiato-overlay2 hover:text-macchiato-red transition-colors"
+            title="Close"
+            aria-label="Close keyboard shortcuts"
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Binding list */}
+        <ul className="flex-1 overflow-y-auto py-2">
+          {SHORTCUT_ACTIONS.map(({ action, label }) => (
+            <li
+              key={action}
+              className="flex items-center justify-between px-4 py-2 hover:bg-macchiato-surface0/50 transition-colors"
+            >
+              <span className="text-macchiato-text text-sm">{label}</span>
+              <button
+                onClick={() => (capturingAction === action ? cancelCapture() : startCapture(action))}
+                className={`min-w-[3rem] px-2 py-1 rounded text-sm font-mono transition-colors ${
+                  capturingAction === action
+                    ? 'bg-macchiato-mauve text-macchiato-base'
+                    : 'bg-macchiato-surface0 text-macchiato-text hover:bg-macchiato-surface1'
+                }`}
+                title="Click to change"
+              >
+                {capturingAction === action ? 'Press a key…' : formatKey(bindings[action])}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-4 border-t border-macchiato-overlay0/20">
+          <p className="text-macchiato-overlay1 text-xs">
+            Shortcuts are disabled while typing in a text field.
+          </p>
+          <Button variant="ghost" size="sm" onClick={resetBindings}>
+            Reset to defaults
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
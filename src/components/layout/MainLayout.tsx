@@ -4,6 +4,19 @@ import { Navbar } from './Navbar';
 import Sidebar from './Sidebar';
 import { MusicPlayer } from '../music/MusicPlayer';
 import { usePlayerStore } from '../../store/playerStore';
+import { usePlaybackEngine } from '../../hooks/usePlaybackEngine';
+import { useMediaSession } from '../../hooks/useMediaSession';
+import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
+import { useListeningHistory } from '../../hooks/useListeningHistory';
+import { useEqualizer } from '../../hooks/useEqualizer';
+import { useVolumeNormalization } from '../../hooks/useVolumeNormalization';
+import { usePlayerSync } from '../../hooks/usePlayerSync';
+import { useAutoplay } from '../../hooks/useAutoplay';
+import { useAbLoop } from '../../hooks/useAbLoop';
+import { usePlaybackEvents } from '../../hooks/usePlaybackEvents';
+import { useResumePositions } from '../../hooks/useResumePositions';
+import { KeyboardShortcutsOverlay } from './KeyboardShortcutsOverlay';
+import { Notifications } from './Notifications';
 
 /**
  * Main application layout component that provides the consistent UI structure
@@ -12,6 +25,17 @@ import { usePlayerStore } from '../../store/playerStore';
  * - Side navigation for primary navigation
  * - Main content area for page-specific content (via React Router's Outlet)
  * - Conditionally rendered music player that appears only when a song is selected
+ * - The playback engine that drives the audio elements for the whole app
+ * - Media Session integration for OS-level media controls
+ * - Global keyboard shortcuts and their help overlay
+ * - Listening history tracking
+ * - The equalizer and volume normalization applied to playback
+ * - A single player shared by all open tabs
+ * - Autoplay of similar songs once the queue runs out
+ * - A–B loops that repeat part of a song
+ * - Playback events, sent to the API when an endpoint is configured
+ * - Resume positions of long tracks
+ * - Notifications, for example when a song could not be played
  * 
  * @returns {JSX.Element} The composed layout with navigation and content areas
  */
@@ -19,6 +43,19 @@ export const MainLayout: React.FC = () => {
   // Access current song from global player store to conditionally render the music player
   const { currentSong } = usePlayerStore();
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
+  
+  // Mounted once here so audio events are handled by a single listener set
+  usePlaybackEngine();
+  useMediaSession();
+  useKeyboardShortcuts();
+  useListeningHistory();
+  useEqualizer();
+  useVolumeNormalization();
+  usePlayerSync();
+  useAutoplay();
+  useAbLoop();
+  usePlaybackEvents();
+  useResumePositions();
 
   return (
     <div className="flex flex-col h-screen bg-macchiato-base text-macchiato-text">
@@ -35,6 +72,9 @@ export const MainLayout: React.FC = () => {
       </div>
       
       {currentSong && <MusicPlayer />}
+      
+      <KeyboardShortcutsOverlay />
+      <Notifications />
     </div>
   );
 };
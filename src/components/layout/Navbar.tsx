@@ -3,6 +3,11 @@ import { Link, useNavigate } from 'react-router-dom';
 import { FiSearch, FiUser, FiLogOut } from 'react-icons/fi';
 import { useAuth } from '../../hooks/useAuth';
 
+/**
+ * Element id of the search field, used by the "/" keyboard shortcut to focus it
+ */
+export const NAVBAR_SEARCH_ID = 'navbar-search';
+
 /**
  * Navigation bar component for the application
  * 
@@ -90,6 +95,7 @@ export const Navbar: React.FC<NavbarProps> = ({ onOpenSidebar }) => {
           <form onSubmit={handleSearch} className="w-full max-w-2xl">
             <div className="relative">
               <input
+                id={NAVBAR_SEARCH_ID}
                 type="text"
                 placeholder="Search for songs or artists..."
                 className="w-full bg-macchiato-surface0/60 backdrop-blur-glass border border-macchiato-overlay0/20 text-macchiato-text rounded-full px-4 py-2 pl-10 focus:outline-none focus:ring-2 focus:ring-macchiato-mauve/20 focus:border-macchiato-mauve"
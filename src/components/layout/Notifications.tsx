@@ -0,0 +1,66 @@
+import React from 'react';
+import { FiX, FiInfo, FiCheckCircle, FiAlertTriangle, FiAlertCircle } from 'react-icons/fi';
+import { useNotificationStore, NotificationType } from '../../store/notificationStore';
+
+const TYPE_STYLES: Record<NotificationType, { icon: React.ReactNode; className: string }> = {
+  info: { icon: <FiInfo size={16} />, className: 'text-macchiato-blue' },
+  success: { icon: <FiCheckCircle size={16} />, className: 'text-macchiato-green' },
+  warning: { icon: <FiAlertTriangle size={16} />, className: 'text-macchiato-yellow' },
+  error: { icon: <FiAlertCircle size={16} />, className: 'text-macchiato-red' }
+};
+
+/**
+ * Notifications Component
+ *
+ * Shows the app's short-lived messages stacked above the music player, for
+ * example when a song could not be played.
+ *
+ * Features:
+ * - Icon and color per message type
+ * - Optional action button, which also dismisses the message
+ * - Messages disappear on their own or can be closed
+ * - Announced to screen readers, errors assertively
+ */
+export const Notifications: React.FC = () => {
+  const { notifications, dismiss } = useNotificationStore();
+
+  return (
+    <div className="fixed bottom-28 md:bottom-24 right-2 md:right-4 z-[90] flex flex-col items-end space-y-2 pointer-events-none">
+      {notifications.map(notification => {
+        const style = TYPE_STYLES[notification.type];
+
+        return (
+          <div
+            key={notification.id}
+            className="pointer-events-auto w-80 max-w-[calc(100vw-1rem)] flex items-start space-x-3 p-3 bg-macchiato-base/95 backdrop-blur-glass border border-macchiato-overlay0/30 rounded-lg shadow-neumorphic-dark animate-fadeIn"
+            role={notification.type === 'error' ? 'alert' : 'status'}
+          >
+            <span className={`mt-0.5 flex-shrink-0 ${style.className}`}>{style.icon}</span>
+            <p className="flex-1 text-macchiato-text text-sm">{notification.message}</p>
+
+            {notification.action && (
+              <button
+                onClick={() => {
+                  notification.action?.onClick();
+                  dismiss(notification.id);
+                }}
+                className="text-macchiato-mauve hover:underline text-sm whitespace-nowrap"
+              >
+                {notification.action.label}
+              </button>
+            )}
+
+            <button
+              onClick={() => dismiss(notification.id)}
+              className="text-macchiato-overlay2 hover:text-macchiato-red transition-colors flex-shrink-0"
+              title="Dismiss"
+              aria-label="Dismiss notification"
+            >
+              <FiX size={16} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
 import {
-  FiHome, FiMusic, FiDisc, FiUsers, FiList, FiPlusCircle, FiHeart
+  FiHome, FiMusic, FiDisc, FiUsers, FiList, FiPlusCircle, FiHeart, FiClock
 } from 'react-icons/fi';
 import { useAuth } from '../../hooks/useAuth';
 import { UserRole } from '../../types';
@@ -58,6 +58,10 @@ export const SidebarContent: React.FC<{ onNavigate?: () => void }> = ({ onNaviga
               <FiHeart size={20} />
               <span>Favorites</span>
             </NavLink>
+            <NavLink to="/history" className={navLinkClass} onClick={onNavigate}>
+              <FiClock size={20} />
+              <span>Recently Played</span>
+            </NavLink>
           </nav>
         </div>
       )}
@@ -39,7 +39,7 @@ export const AlbumCard: React.FC<AlbumCardProps> = ({ album, className = '' }) =
     if (isCurrentAlbum && isPlaying) {
       togglePlay();
     } else if (album.songs && album.songs.length > 0) {
-      playQueue(album.songs, 0);
+      playQueue(album.songs, 0, { type: 'album', id: album.id, name: album.name });
     }
   };
 
@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { audioEngineService } from '../../services/audioEngine.service';
+import { VisualizerMode } from '../../store/playerStore';
+import { MACCHIATO } from '../../utils/palette';
+
+interface AudioVisualizerProps {
+  mode: Exclude<VisualizerMode, 'off'>;
+  isPlaying: boolean;
+  className?: string;
+}
+
+/**
+ * Colors the spectrum runs through, from the lowest to the highest frequencies
+ */
+const SPECTRUM_COLORS = [
+  MACCHIATO.mauve,
+  MACCHIATO.pink,
+  MACCHIATO.red,
+  MACCHIATO.peach,
+  MACCHIATO.yellow,
+  MACCHIATO.green,
+  MACCHIATO.teal,
+  MACCHIATO.sky,
+  MACCHIATO.sapphire,
+  MACCHIATO.blue,
+  MACCHIATO.lavender
+];
+
+const BAR_COUNT = 64;
+const CIRCULAR_BAR_COUNT = 96;
+// The highest quarter of the spectrum is mostly empty in music
+const USED_SPECTRUM_SHARE = 0.75;
+
+const getSpectrumColor = (position: number): string => {
+  const index = Math.min(SPECTRUM_COLORS.length - 1, Math.floor(position * SPECTRUM_COLORS.length));
+  return SPECTRUM_COLORS[index];
+};
+
+/**
+ * Averages the frequency bins of one bar, with bars spaced logarithmically so
+ * bass and treble get a similar share of the bars
+ */
+const getBarLevel = (frequencies: Uint8Array, bar: number, barCount: number): number => {
+  const binCount = frequencies.length * USED_SPECTRUM_SHARE;
+  const start = Math.floor(Math.pow(binCount, bar / barCount));
+  const end = Math.max(start + 1, Math.floor(Math.pow(binCount, (bar + 1) / barCount)));
+  let sum = 0;
+
+  for (let i = start; i < end; i++) {
+    sum += frequencies[i];
+  }
+  return sum / (end - start) / 255;
+};
+
+const drawBars = (context: CanvasRenderingContext2D, width: number, height: number, frequencies: Uint8Array) => {
+  const slot = width / BAR_COUNT;
+  const barWidth = Math.max(1, slot * 0.7);
+
+  for (let bar = 0; bar < BAR_COUNT; bar++) {
+    const barHeight = Math.max(2, getBarLevel(frequencies, bar, BAR_COUNT) * height * 0.9);
+    context.fillStyle = getSpectrumColor(bar / BAR_COUNT);
+    context.fillRect(bar * slot + (slot - barWidth) / 2, height - barHeight, barWidth, barHeight);
+  }
+};
+
+const drawCircular = (context: CanvasRenderingContext2D, width: number, height: number, frequencies: Uint8Array) => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radius = Math.min(width, height) * 0.22;
+  const maxLength = Math.min(width, height) * 0.26;
+
+  context.lineWidth = Math.max(2, (2 * Math.PI * radius) / CIRCULAR_BAR_COUNT * 0.6);
+  context.lineCap = 'round';
+
+  for (let bar = 0; bar < CIRCULAR_BAR_COUNT; bar++) {
+    const angle = (bar / CIRCULAR_BAR_COUNT) * 2 * Math.PI - Math.PI / 2;
+    const length = 2 + getBarLevel(frequencies, bar, CIRCULAR_BAR_COUNT) * maxLength;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    context.strokeStyle = getSpectrumColor(bar / CIRCULAR_BAR_COUNT);
+    context.beginPath();
+    context.moveTo(centerX + cos * radius, centerY + sin * radius);
+    context.lineTo(centerX + cos * (radius + length), centerY + sin * (radius + length));
+    context.stroke();
+  }
+};
+
+const drawOscilloscope = (context: CanvasRenderingContext2D, width: number, height: number, waveform: Uint8Array) => {
+  context.lineWidth = 3;
+  context.strokeStyle = MACCHIATO.mauve;
+  context.shadowColor = MACCHIATO.pink;
+  context.shadowBlur = 12;
+  context.beginPath();
+
+  for (let i = 0; i < waveform.length; i++) {
+    const x = (i / (waveform.length - 1)) * width;
+    const y = (waveform[i] / 255) * height;
+
+    if (i === 0) {
+      context.moveTo(x, y);
+    } else {
+      context.lineTo(x, y);
+    }
+  }
+
+  context.stroke();
+  context.shadowBlur = 0;
+};
+
+/**
+ * AudioVisualizer Component
+ *
+ * Draws what is currently playing on a canvas, using an analyser on the
+ * playback graph.
+ *
+ * Features:
+ * - Frequency bars, circular spectrum and oscilloscope styles
+ * - Colors from the Catppuccin Macchiato palette
+ * - The animation loop only runs while music plays and the tab is visible
+ */
+export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ mode, isPlaying, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isPageVisible, setIsPageVisible] = useState(() => !document.hidden);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsPageVisible(!document.hidden);
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    const analyser = audioEngineService.getAnalyser();
+    if (!canvas || !context || !analyser) return;
+
+    const data = new Uint8Array(mode === 'oscilloscope' ? analyser.fftSize : analyser.frequencyBinCount);
+    let frameId: number | null = null;
+
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+
+      if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+        canvas.width = Math.round(width * ratio);
+        canvas.height = Math.round(height * ratio);
+      }
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, width, height);
+
+      if (mode === 'oscilloscope') {
+        analyser.getByteTimeDomainData(data);
+        drawOscilloscope(context, width, height, data);
+      } else {
+        analyser.getByteFrequencyData(data);
+        if (mode === 'bars') {
+          drawBars(context, width, height, data);
+        } else {
+          drawCircular(context, width, height, data);
+        }
+      }
+    };
+
+    const loop = () => {
+      draw();
+      frameId = requestAnimationFrame(loop);
+    };
+
+    // A still frame is drawn while paused or hidden; the loop only runs while it can be seen moving
+    if (isPlaying && isPageVisible) {
+      audioEngineService.resume();
+      loop();
+    } else {
+      draw();
+    }
+
+    return () => {
+      if (frameId !== null) {
+        cancelAnimationFrame(frameId);
+      }
+    };
+  }, [mode, isPlaying, isPageVisible]);
+
+  return <canvas ref={canvasRef} className={`w-full h-full block ${className}`} aria-hidden="true" />;
+};
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { FiX, FiTrash2 } from 'react-icons/fi';
+import { Slider } from '../ui/Slider';
+import { Button } from '../ui/Button';
+import {
+  useEqualizerStore,
+  EQUALIZER_FREQUENCIES,
+  MIN_BAND_GAIN,
+  MAX_BAND_GAIN,
+  BUILT_IN_PRESETS
+} from '../../store/equalizerStore';
+
+interface EqualizerPanelProps {
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * Formats a band frequency for display, e.g. 2000 becomes "2k"
+ */
+const formatFrequency = (frequency: number): string => {
+  return frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`;
+};
+
+/**
+ * EqualizerPanel Component
+ *
+ * A floating panel for the ten-band equalizer.
+ *
+ * Features:
+ * - Turn the equalizer on or off
+ * - Built-in presets (Flat, Bass Boost, Vocal, Treble, Loudness)
+ * - Per-band gain from -12 to +12 dB
+ * - Save the current bands as a custom preset and delete custom presets
+ * - Settings are saved per user
+ */
+export const EqualizerPanel: React.FC<EqualizerPanelProps> = ({
+  onClose,
+  className = 'absolute bottom-full right-0 mb-2'
+}) => {
+  const {
+    isEnabled,
+    gains,
+    presetId,
+    customPresets,
+    setEnabled,
+    setBandGain,
+    applyPreset,
+    saveCustomPreset,
+    deleteCustomPreset
+  } = useEqualizerStore();
+  const [presetName, setPresetName] = useState('');
+
+  const isCustomPreset = customPresets.some(preset => preset.id === presetId);
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveCustomPreset(presetName);
+    setPresetName('');
+  };
+
+  return (
+    <div
+      className={`${className} w-96 max-w-[calc(100vw-2rem)] bg-macchiato-base/90 backdrop-blur-lg border border-macchiato-overlay0/30 rounded-lg shadow-neumorphic-dark z-50`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Panel header with on/off toggle */}
+      <div className="flex items-center justify-between p-4 border-b border-macchiato-overlay0/20">
+        <h3 className="text-macchiato-text font-medium">Equalizer</h3>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setEnabled(!isEnabled)}
+            className={`px-3 py-1 rounded-full text-xs transition-colors ${isEnabled ? 'bg-macchiato-mauve text-macchiato-base' : 'bg-macchiato-surface0 text-macchiato-subtext0'}`}
+            aria-pressed={isEnabled}
+            title={isEnabled ? 'Turn equalizer off' : 'Turn equalizer on'}
+          >
+            {isEnabled ? 'On' : 'Off'}
+          </button>
+          <button
+            onClick={onClose}
+            className="text-macchiato-overlay2 hover:text-macchiato-red transition-colors"
+            title="Close equalizer"
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className={`p-4 space-y-4 ${isEnabled ? '' : 'opacity-50'}`}>
+        {/* Preset selection */}
+        <div className="flex items-center space-x-2">
+          <select
+            className="flex-1 bg-macchiato-surface0/60 backdrop-blur-glass border border-macchiato-overlay0/20 text-macchiato-text text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-macchiato-mauve/20 focus:border-macchiato-mauve"
+            value={presetId ?? ''}
+            onChange={(e) => applyPreset(e.target.value)}
+            aria-label="Equalizer preset"
+          >
+            {presetId === null && <option value="">Manual</option>}
+            <optgroup label="Presets">
+              {BUILT_IN_PRESETS.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </optgroup>
+            {customPresets.length > 0 && (
+              <optgroup label="My presets">
+                {customPresets.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          {isCustomPreset && presetId && (
+            <button
+              onClick={() => deleteCustomPreset(presetId)}
+              className="p-2 text-macchiato-overlay2 hover:text-macchiato-red transition-colors"
+              title="Delete preset"
+              aria-label="Delete preset"
+            >
+              <FiTrash2 size={16} />
+            </button>
+          )}
+        </div>
+
+        {/* Band gains */}
+        <ul className="space-y-2">
+          {EQUALIZER_FREQUENCIES.map((frequency, index) => (
+            <li key={frequency} className="flex items-center space-x-3">
+              <span className="w-10 text-right text-macchiato-subtext0 text-xs">{formatFrequency(frequency)}</span>
+              <Slider
+                min={MIN_BAND_GAIN}
+                max={MAX_BAND_GAIN}
+                step={1}
+                value={gains[index]}
+                onChange={(gain) => setBandGain(index, gain)}
+                className="flex-1"
+              />
+              <span className="w-12 text-macchiato-subtext0 text-xs">
+                {gains[index] > 0 ? '+' : ''}{gains[index]} dB
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {/* Save current bands as a custom preset */}
+        <form onSubmit={handleSavePreset} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            maxLength={40}
+            className="flex-1 bg-macchiato-surface0/60 backdrop-blur-glass border border-macchiato-overlay0/20 text-macchiato-text text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-macchiato-mauve/20 focus:border-macchiato-mauve"
+          />
+          <Button type="submit" variant="secondary" size="sm" disabled={!presetName.trim()}>
+            Save
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
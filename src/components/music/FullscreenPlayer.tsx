@@ -11,14 +11,42 @@ import {
   FiInfo,
   FiClock,
   FiUser,
-  FiMinimize
+  FiMinimize,
+  FiSettings,
+  FiSliders,
+  FiMoon,
+  FiImage,
+  FiBarChart2,
+  FiDisc,
+  FiActivity,
+  FiRepeat,
+  FiX,
+  FiAlignLeft
 } from 'react-icons/fi';
 import { Slider } from '../ui/Slider';
 import { usePlayer } from '../../hooks/usePlayer';
-import { formatDuration, getImageUrl } from '../../utils/formatters';
+import { formatDuration, formatPlaybackRate, getImageUrl } from '../../utils/formatters';
 import { artistService } from '../../services/artist.service';
 import { ArtistDto } from '../../types';
 import { FavoriteButton } from './FavoriteButton';
+import { ShuffleButton, RepeatButton } from './PlaybackModeButtons';
+import { PlayerSettingsPanel } from './PlayerSettingsPanel';
+import { EqualizerPanel } from './EqualizerPanel';
+import { PlaybackSpeedPanel } from './PlaybackSpeedPanel';
+import { SleepTimerPanel, SleepTimerStatus } from './SleepTimerPanel';
+import { WaveformSeekBar } from './WaveformSeekBar';
+import { LyricsPanel } from './LyricsPanel';
+import { RemotePlaybackNotice } from './RemotePlaybackNotice';
+import { AudioVisualizer } from './AudioVisualizer';
+import { usePrefersReducedMotion } from '../../hooks/usePrefersReducedMotion';
+import { VisualizerMode } from '../../store/playerStore';
+
+const VISUALIZER_OPTIONS: { mode: VisualizerMode; label: string; icon: React.ComponentType<{ size?: number }> }[] = [
+  { mode: 'off', label: 'Artwork', icon: FiImage },
+  { mode: 'bars', label: 'Bars', icon: FiBarChart2 },
+  { mode: 'circular', label: 'Circular', icon: FiDisc },
+  { mode: 'oscilloscope', label: 'Wave', icon: FiActivity }
+];
 
 /**
  * FullscreenPlayer Component
@@ -27,11 +55,21 @@ import { FavoriteButton } from './FavoriteButton';
  * and detailed information about the currently playing track, artist, and queue.
  * 
  * - Large album artwork display with animation during playback
+ * - Real-time visualizer over the artwork (bars, circular or waveform)
  * - Comprehensive playback controls (play/pause, skip, volume, seek)
+ * - Waveform seek bar with hover time preview
+ * - A–B loop controls, with the loop region shown on the seek bar
+ * - Shuffle and repeat mode toggles
  * - Dynamic background that matches the album art
  * - Artist information panel with biography
  * - Song metadata display (duration, genre, release year)
  * - Queue management and visibility
+ * - Lyrics that follow the song when they are time-synced, click a line to jump to it
+ * - Player settings (crossfade, volume normalization)
+ * - Ten-band equalizer with presets
+ * - Playback speed with optional pitch preservation
+ * - Sleep timer with the time left next to the song metadata
+ * - Notice with a "Play here" action while another tab is playing
  * - Favorite button integration
  * - Full accessibility support
  * 
@@ -42,6 +80,7 @@ export const FullscreenPlayer: React.FC = () => {
   const { 
     currentSong,
     queue,
+    nextUp,
     isPlaying,
     volume,
     progress,
@@ -50,9 +89,25 @@ export const FullscreenPlayer: React.FC = () => {
     previous,
     next,
     setVolume,
+    toggleMute,
     seekTo,
-    toggleFullscreen
+    playbackRate,
+    toggleFullscreen,
+    isQueueVisible: showQueue,
+    toggleQueueVisibility,
+    visualizerMode,
+    setVisualizerMode,
+    abLoops,
+    setLoopStart,
+    setLoopEnd,
+    clearLoop
   } = usePlayer();
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const showVisualizer = visualizerMode !== 'off' && !prefersReducedMotion;
+  // "Next up" songs play before the rest of the album or playlist
+  const upcomingSongs = [...nextUp, ...queue];
+  const currentLoop = currentSong?.id !== undefined ? abLoops[currentSong.id] ?? null : null;
+  const loopEnd = currentLoop?.end ?? null;
   
   const isMobile = window.innerWidth <= 675;
   
@@ -104,9 +159,12 @@ export const FullscreenPlayer: React.FC = () => {
     setTouchMoveY(null);
   };
   
-  const [showQueue, setShowQueue] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showEqualizer, setShowEqualizer] = useState(false);
+  const [showSpeed, setShowSpeed] = useState(false);
+  const [showSleepTimer, setShowSleepTimer] = useState(false);
+  const [showLyrics, setShowLyrics] = useState(false);
   const [showArtistInfo, setShowArtistInfo] = useState(false);
-  const [prevVolume, setPrevVolume] = useState(volume);
   const [artistInfo, setArtistInfo] = useState<ArtistDto | null>(null);
   const [isLoadingArtist, setIsLoadingArtist] = useState(false);
   const [touchStartY, setTouchStartY] = useState<number | null>(null);
@@ -145,15 +203,6 @@ export const FullscreenPlayer: React.FC = () => {
     fetchArtistInfo();
   }, [currentSong]);
   
-  const toggleMute = () => {
-    if (volume > 0) {
-      setPrevVolume(volume);
-      setVolume(0);
-    } else {
-      setVolume(prevVolume);
-    }
-  };
-  
   if (!currentSong) return null;
   
   return (
@@ -207,13 +256,45 @@ export const FullscreenPlayer: React.FC = () => {
               <img 
                 src={getImageUrl(`album${currentSong.albumId}.jpg`)} 
                 alt={currentSong.albumName || 'Album cover'} 
-                className="w-full h-full object-cover"
+                className={`w-full h-full object-cover transition-opacity duration-300 ${showVisualizer ? 'opacity-30' : ''}`}
               />
             ) : (
               <div className="w-full h-full flex items-center justify-center">
-                <FiMusic className="text-macchiato-mauve" size={80} />
+                <FiMusic className={`text-macchiato-mauve ${showVisualizer ? 'opacity-30' : ''}`} size={80} />
               </div>
             )}
+
+            {/* Visualizer drawn over the dimmed artwork */}
+            {showVisualizer && (
+              <AudioVisualizer
+                mode={visualizerMode}
+                isPlaying={isPlaying}
+                className="absolute inset-0"
+              />
+            )}
+          </div>
+
+          {/* Visualizer style switcher */}
+          <div
+            className={`flex justify-center mt-4 ${prefersReducedMotion ? 'opacity-40' : ''}`}
+            title={prefersReducedMotion ? 'The visualizer is turned off because your system prefers reduced motion' : undefined}
+          >
+            <div className="flex rounded-lg bg-macchiato-surface0 p-1" role="radiogroup" aria-label="Visualizer">
+              {VISUALIZER_OPTIONS.map(({ mode, label, icon: Icon }) => (
+                <button
+                  key={mode}
+                  onClick={() => setVisualizerMode(mode)}
+                  disabled={prefersReducedMotion}
+                  className={`flex items-center space-x-1 px-3 py-1 rounded-md text-sm transition-colors disabled:cursor-not-allowed ${visualizerMode === mode ? 'bg-macchiato-mauve text-macchiato-base' : 'text-macchiato-subtext0 hover:text-macchiato-text'}`}
+                  role="radio"
+                  aria-checked={visualizerMode === mode}
+                  title={label}
+                >
+                  <Icon size={14} />
+                  <span className="hidden sm:inline">{label}</span>
+                </button>
+              ))}
+            </div>
           </div>
         </div>
         
@@ -275,6 +356,8 @@ export const FullscreenPlayer: React.FC = () => {
                 <FiClock className="mr-1" size={14} />
                 <span>{formatDuration(duration)}</span>
               </div>
+              <SleepTimerStatus className="text-sm" />
+              <RemotePlaybackNotice className="text-sm" />
               {currentSong.genre && (
                 <div>
                   <span className="capitalize">{currentSong.genre}</span>
@@ -288,17 +371,21 @@ export const FullscreenPlayer: React.FC = () => {
             </div>
           </div>
           
-          {/* Playback progress slider */}
-          <div className="w-full flex items-center space-x-3 mb-6">
+          {/* Playback progress waveform */}
+          <div className="w-full flex items-center space-x-3 mb-3">
             <span className="text-macchiato-subtext0 text-sm font-medium">
               {formatDuration(progress)}
             </span>
             
-            <Slider 
-              min={0}
-              max={duration}
-              value={progress}
-              onChange={seekTo}
+            <WaveformSeekBar 
+              song={currentSong}
+              progress={progress}
+              duration={duration}
+              onSeek={seekTo}
+              loop={currentLoop}
+              onSetLoopStart={setLoopStart}
+              onSetLoopEnd={setLoopEnd}
+              height={56}
               className="flex-1"
             />
             
@@ -307,8 +394,44 @@ export const FullscreenPlayer: React.FC = () => {
             </span>
           </div>
           
-          {/* Main playback controls (previous, play/pause, next) */}
+          {/* A–B loop controls */}
+          <div className="flex items-center justify-center space-x-2 mb-6 text-xs">
+            <FiRepeat size={14} className={loopEnd !== null ? 'text-macchiato-mauve' : 'text-macchiato-overlay2'} />
+            <button
+              onClick={() => setLoopStart()}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                currentLoop ? 'bg-macchiato-mauve/20 text-macchiato-mauve' : 'bg-macchiato-surface0 text-macchiato-subtext0 hover:text-macchiato-text'
+              }`}
+              title="Set loop start at the current position (shift-click the waveform to pick a point)"
+            >
+              A{currentLoop && ` · ${formatDuration(currentLoop.start)}`}
+            </button>
+            <button
+              onClick={() => setLoopEnd()}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                loopEnd !== null ? 'bg-macchiato-mauve/20 text-macchiato-mauve' : 'bg-macchiato-surface0 text-macchiato-subtext0 hover:text-macchiato-text'
+              }`}
+              title="Set loop end at the current position"
+            >
+              B{loopEnd !== null && ` · ${formatDuration(loopEnd)}`}
+            </button>
+            {currentLoop && (
+              <button
+                onClick={clearLoop}
+                className="flex items-center space-x-1 px-2 py-1 rounded-md text-macchiato-overlay2 hover:text-macchiato-red transition-colors"
+                title="Clear loop"
+                aria-label="Clear loop"
+              >
+                <FiX size={12} />
+                <span>Clear loop</span>
+              </button>
+            )}
+          </div>
+          
+          {/* Main playback controls (shuffle, previous, play/pause, next, repeat) */}
           <div className="flex items-center justify-center space-x-8 mb-8">
+            <ShuffleButton size={24} />
+            
             <button 
               onClick={previous}
               className="text-macchiato-overlay2 hover:text-macchiato-text transition-colors"
@@ -329,6 +452,8 @@ export const FullscreenPlayer: React.FC = () => {
             >
               <FiSkipForward size={36} />
             </button>
+            
+            <RepeatButton size={24} />
           </div>
           
           {/* Secondary controls (volume, queue) */}
@@ -352,26 +477,125 @@ export const FullscreenPlayer: React.FC = () => {
               />
             </div>
             
-            {/* Queue toggle button */}
-            <button 
-              onClick={() => setShowQueue(!showQueue)}
-              className={`flex items-center space-x-2 px-4 py-2 rounded-full ${showQueue ? 'bg-macchiato-mauve text-macchiato-base' : 'bg-macchiato-surface0 text-macchiato-text'} transition-colors`}
-            >
-              <FiList size={18} />
-              <span>Queue ({queue.length})</span>
-            </button>
+            <div className="flex items-center space-x-3">
+              {/* Sleep timer button and panel */}
+              <div className="relative">
+                <button 
+                  onClick={() => {
+                    setShowSleepTimer(!showSleepTimer);
+                    setShowSpeed(false);
+                    setShowEqualizer(false);
+                    setShowSettings(false);
+                  }}
+                  className={`p-2 rounded-full ${showSleepTimer ? 'bg-macchiato-mauve text-macchiato-base' : 'bg-macchiato-surface0 text-macchiato-text'} transition-colors`}
+                  title="Sleep timer"
+                  aria-label="Sleep timer"
+                >
+                  <FiMoon size={18} />
+                </button>
+                
+                {showSleepTimer && <SleepTimerPanel onClose={() => setShowSleepTimer(false)} />}
+              </div>
+              
+              {/* Playback speed button and panel */}
+              <div className="relative">
+                <button 
+                  onClick={() => {
+                    setShowSpeed(!showSpeed);
+                    setShowSleepTimer(false);
+                    setShowEqualizer(false);
+                    setShowSettings(false);
+                  }}
+                  className={`px-3 py-2 rounded-full text-sm ${showSpeed ? 'bg-macchiato-mauve text-macchiato-base' : 'bg-macchiato-surface0 text-macchiato-text'} transition-colors`}
+                  title="Playback speed"
+                  aria-label={`Playback speed ${formatPlaybackRate(playbackRate)}`}
+                >
+                  {formatPlaybackRate(playbackRate)}
+                </button>
+                
+                {showSpeed && <PlaybackSpeedPanel onClose={() => setShowSpeed(false)} />}
+              </div>
+              
+              {/* Equalizer toggle button and panel */}
+              <div className="relative">
+                <button 
+                  onClick={() => {
+                    setShowEqualizer(!showEqualizer);
+                    setShowSpeed(false);
+                    setShowSleepTimer(false);
+                    setShowSettings(false);
+                  }}
+                  className={`p-2 rounded-full ${showEqualizer ? 'bg-macchiato-mauve text-macchiato-base' : 'bg-macchiato-surface0 text-macchiato-text'} transition-colors`}
+                  title="Equalizer"
+                  aria-label="Equalizer"
+                >
+                  <FiSliders size={18} />
+                </button>
+                
+                {showEqualizer && <EqualizerPanel onClose={() => setShowEqualizer(false)} />}
+              </div>
+              
+              {/* Player settings toggle button and panel */}
+              <div className="relative">
+                <button 
+                  onClick={() => {
+                    setShowSettings(!showSettings);
+                    setShowEqualizer(false);
+                    setShowSpeed(false);
+                    setShowSleepTimer(false);
+                  }}
+                  className={`p-2 rounded-full ${showSettings ? 'bg-macchiato-mauve text-macchiato-base' : 'bg-macchiato-surface0 text-macchiato-text'} transition-colors`}
+                  title="Player settings"
+                  aria-label="Player settings"
+                >
+                  <FiSettings size={18} />
+                </button>
+                
+                {showSettings && <PlayerSettingsPanel onClose={() => setShowSettings(false)} />}
+              </div>
+              
+              {/* Lyrics toggle button */}
+              <button 
+                onClick={() => setShowLyrics(!showLyrics)}
+                className={`p-2 rounded-full ${showLyrics ? 'bg-macchiato-mauve text-macchiato-base' : 'bg-macchiato-surface0 text-macchiato-text'} transition-colors`}
+                title="Lyrics"
+                aria-label="Lyrics"
+                aria-pressed={showLyrics}
+              >
+                <FiAlignLeft size={18} />
+              </button>
+              
+              {/* Queue toggle button */}
+              <button 
+                onClick={() => toggleQueueVisibility()}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-full ${showQueue ? 'bg-macchiato-mauve text-macchiato-base' : 'bg-macchiato-surface0 text-macchiato-text'} transition-colors`}
+              >
+                <FiList size={18} />
+                <span>Queue ({upcomingSongs.length})</span>
+              </button>
+            </div>
           </div>
           
+          {/* Collapsible lyrics panel */}
+          {showLyrics && (
+            <LyricsPanel
+              song={currentSong}
+              progress={progress}
+              onSeek={seekTo}
+              className="mt-6 max-h-72 animate-slideUp"
+            />
+          )}
+          
           {/* Collapsible queue panel */}
           {showQueue && (
             <div className="mt-6 bg-macchiato-mantle/70 backdrop-blur-sm rounded-lg p-4 max-h-60 overflow-y-auto animate-slideUp">
               <h3 className="text-macchiato-text font-medium mb-3">Up Next</h3>
               
-              {queue.length === 0 ? (
+              {upcomingSongs.length === 0 ? (
                 <p className="text-macchiato-subtext0">No songs in queue</p>
               ) : (
                 <ul className="space-y-2">
-                  {queue.map((song, index) => (
+                  {upcomingSongs.map((song, index) => (
                     <li 
                       key={`${song.id}-${index}`}
                       className="flex items-center justify-between p-2 hover:bg-macchiato-surface0/50 rounded-md"
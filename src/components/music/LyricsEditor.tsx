@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FiX, FiAlertTriangle, FiCheck, FiUpload } from 'react-icons/fi';
+import { Button } from '../ui/Button';
+import { lyricsService } from '../../services/lyrics.service';
+import { parseLyrics } from '../../utils/lyrics';
+import { SongDto } from '../../types';
+
+interface LyricsEditorProps {
+  song: SongDto;
+  onClose: () => void;
+  onSaved?: (song: SongDto) => void;
+}
+
+const LRC_EXAMPLE = '[00:12.50]First line\n[00:17.20]Second line';
+
+/**
+ * LyricsEditor Component
+ *
+ * A form in the artist dashboard for attaching lyrics to a song or editing
+ * them.
+ *
+ * Features:
+ * - Plain text or time-synced LRC, typed in or loaded from a .lrc or .txt file
+ * - Checks LRC while typing and lists malformed tags with their line numbers
+ * - Saving is only possible once every issue is fixed
+ * - Clearing the text removes the lyrics
+ */
+export const LyricsEditor: React.FC<LyricsEditorProps> = ({ song, onClose, onSaved }) => {
+  const [text, setText] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  /**
+   * Load the song's current lyrics
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    lyricsService.getLyrics(song).then(lyrics => {
+      if (!cancelled) {
+        setText(lyrics);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [song]);
+
+  const parsed = useMemo(() => (text ? parseLyrics(text) : null), [text]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setText(await file.text());
+    setSaved(false);
+    e.target.value = '';
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (text === null || (parsed && parsed.issues.length > 0)) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    const response = await lyricsService.saveLyrics(song, text);
+    setIsSaving(false);
+
+    if (response.data) {
+      setSaved(true);
+      onSaved?.(response.data);
+    } else {
+      setError(response.error || 'Failed to save lyrics');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="mt-2 mb-4 p-4 bg-macchiato-mantle/70 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-macchiato-text text-sm font-medium">Lyrics for {song.title}</h4>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-macchiato-overlay2 hover:text-macchiato-red transition-colors"
+          title="Close"
+          aria-label="Close"
+        >
+          <FiX size={16} />
+        </button>
+      </div>
+
+      {text === null ? (
+        <p className="text-macchiato-subtext0 text-sm">Loading lyrics...</p>
+      ) : (
+        <>
+          <textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setSaved(false);
+            }}
+            rows={10}
+            placeholder={`Plain text, or time-synced LRC:\n${LRC_EXAMPLE}`}
+            className="w-full px-3 py-2 bg-macchiato-surface0 border border-macchiato-overlay0/30 rounded-lg text-macchiato-text text-sm font-mono placeholder-macchiato-overlay0 focus:outline-none focus:ring-2 focus:ring-macchiato-mauve/50"
+            aria-label="Lyrics"
+          />
+
+          {/* What the lyrics were recognized as */}
+          {parsed && parsed.lines.length > 0 && (
+            <p className="text-macchiato-subtext0 text-xs">
+              {parsed.isSynced
+                ? `Time-synced (LRC), ${parsed.lines.length} ${parsed.lines.length === 1 ? 'line' : 'lines'}`
+                : 'Plain text, shown without following the song'}
+            </p>
+          )}
+
+          {/* Problems found in the LRC tags */}
+          {parsed && parsed.issues.length > 0 && (
+            <div className="bg-macchiato-yellow/10 border border-macchiato-yellow/40 rounded-lg p-2 space-y-1">
+              <p className="flex items-center text-macchiato-yellow text-sm">
+                <FiAlertTriangle className="mr-2 flex-shrink-0" size={14} />
+                Fix {parsed.issues.length === 1 ? 'this issue' : `these ${parsed.issues.length} issues`} to save:
+              </p>
+              <ul className="text-macchiato-subtext0 text-xs max-h-32 overflow-y-auto pl-6 list-disc">
+                {parsed.issues.map((issue, index) => (
+                  <li key={`${issue.line}-${index}`}>
+                    Line {issue.line}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {error && <p className="text-macchiato-red text-sm">{error}</p>}
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center text-macchiato-subtext0 hover:text-macchiato-text text-sm cursor-pointer transition-colors">
+              <FiUpload className="mr-2" size={14} />
+              Load .lrc or .txt file
+              <input type="file" accept=".lrc,.txt,text/plain" onChange={handleFileChange} className="hidden" />
+            </label>
+
+            <div className="flex items-center space-x-2">
+              {saved && (
+                <span className="flex items-center text-macchiato-green text-sm">
+                  <FiCheck className="mr-1" size={14} />
+                  Saved
+                </span>
+              )}
+              <Button
+                type="submit"
+                variant="primary"
+                size="sm"
+                disabled={isSaving || (parsed !== null && parsed.issues.length > 0)}
+              >
+                {isSaving ? 'Saving...' : text.trim() ? 'Save lyrics' : 'Remove lyrics'}
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </form>
+  );
+};
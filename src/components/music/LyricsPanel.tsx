@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { lyricsService } from '../../services/lyrics.service';
+import { parseLyrics, getActiveLyricIndex } from '../../utils/lyrics';
+import { usePrefersReducedMotion } from '../../hooks/usePrefersReducedMotion';
+import { formatDuration } from '../../utils/formatters';
+import { SongDto } from '../../types';
+
+interface LyricsPanelProps {
+  song: SongDto;
+  progress: number;
+  onSeek: (time: number) => void;
+  className?: string;
+}
+
+// After the user scrolls the lyrics themselves, following the song waits this long
+const MANUAL_SCROLL_PAUSE_MS = 4000;
+
+/**
+ * LyricsPanel Component
+ *
+ * Shows the lyrics of the playing song. Time-synced (LRC) lyrics follow the
+ * song; plain lyrics are shown as they are.
+ *
+ * Features:
+ * - Highlights the line being sung and keeps it in the middle of the panel
+ * - Click a synced line to jump to it
+ * - Stops following the song for a moment while the user scrolls
+ * - Scrolls without animation when reduced motion is preferred
+ */
+export const LyricsPanel: React.FC<LyricsPanelProps> = ({ song, progress, onSeek, className = '' }) => {
+  const [lyrics, setLyrics] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeLineRef = useRef<HTMLButtonElement>(null);
+  const manualScrollUntilRef = useRef(0);
+  const prefersReducedMotion = usePrefersReducedMotion();
+
+  /**
+   * Load the lyrics whenever the song changes
+   */
+  useEffect(() => {
+    let cancelled = false;
+    setLyrics(null);
+
+    lyricsService.getLyrics(song).then(result => {
+      if (!cancelled) {
+        setLyrics(result);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [song]);
+
+  const parsed = useMemo(() => (lyrics ? parseLyrics(lyrics) : null), [lyrics]);
+  const activeIndex = parsed?.isSynced ? getActiveLyricIndex(parsed.lines, progress) : -1;
+
+  /**
+   * Keep the active line in the middle of the panel
+   */
+  useEffect(() => {
+    const container = containerRef.current;
+    const line = activeLineRef.current;
+    if (!container || !line || Date.now() < manualScrollUntilRef.current) return;
+
+    container.scrollTo({
+      top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+      behavior: prefersReducedMotion ? 'auto' : 'smooth'
+    });
+  }, [activeIndex, prefersReducedMotion]);
+
+  const pauseFollowing = () => {
+    manualScrollUntilRef.current = Date.now() + MANUAL_SCROLL_PAUSE_MS;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative bg-macchiato-mantle/70 backdrop-blur-sm rounded-lg p-4 overflow-y-auto ${className}`}
+      onWheel={pauseFollowing}
+      onTouchMove={pauseFollowing}
+    >
+      {lyrics === null ? (
+        <p className="text-macchiato-subtext0">Loading lyrics...</p>
+      ) : !parsed || parsed.lines.length === 0 ? (
+        <p className="text-macchiato-subtext0">No lyrics for this song</p>
+      ) : parsed.isSynced ? (
+        <ul className="space-y-2 py-16">
+          {parsed.lines.map((line, index) => (
+            <li key={`${line.time}-${index}`}>
+              <button
+                ref={index === activeIndex ? activeLineRef : undefined}
+                onClick={() => line.time !== null && onSeek(line.time)}
+                className={`text-left text-lg transition-colors ${
+                  index === activeIndex
+                    ? 'text-macchiato-text font-semibold'
+                    : index < activeIndex
+                      ? 'text-macchiato-overlay1 hover:text-macchiato-subtext1'
+                      : 'text-macchiato-subtext0 hover:text-macchiato-subtext1'
+                }`}
+                title={line.time !== null ? `Play from ${formatDuration(line.time)}` : undefined}
+                aria-current={index === activeIndex ? 'true' : undefined}
+              >
+                {/* Instrumental breaks are written as empty lines */}
+                {line.text || '♪'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-macchiato-subtext1 whitespace-pre-line leading-relaxed">
+          {parsed.lines.map(line => line.text).join('\n')}
+        </div>
+      )}
+    </div>
+  );
+};
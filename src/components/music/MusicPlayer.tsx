@@ -11,7 +11,9 @@ import {
   FiX,
   FiMinimize2,
   FiMaximize2,
-  FiMaximize
+  FiMaximize,
+  FiSettings,
+  FiMoon
 } from 'react-icons/fi';
 import { Slider } from '../ui/Slider';
 import { usePlayer } from '../../hooks/usePlayer';
@@ -19,6 +21,11 @@ import { formatDuration, getImageUrl } from '../../utils/formatters';
 import { FullscreenPlayer } from './FullscreenPlayer';
 import { QueuePanel } from './QueuePanel';
 import { FavoriteButton } from './FavoriteButton';
+import { ShuffleButton, RepeatButton } from './PlaybackModeButtons';
+import { PlayerSettingsPanel } from './PlayerSettingsPanel';
+import { SleepTimerPanel, SleepTimerStatus } from './SleepTimerPanel';
+import { WaveformSeekBar } from './WaveformSeekBar';
+import { RemotePlaybackNotice } from './RemotePlaybackNotice';
 import { useAuth } from '../../hooks/useAuth';
 
 /**
@@ -28,8 +35,12 @@ import { useAuth } from '../../hooks/useAuth';
  * allowing users to:
  * - View current song information (title, artist, album art)
  * - Control playback (play/pause, previous/next, progress seeking)
+ * - Toggle shuffle and repeat modes
  * - Adjust volume and mute audio
  * - Access the song queue
+ * - Open the player settings (crossfade, volume normalization)
+ * - Set a sleep timer and see the time left on it
+ * - Remote-control playback in another tab, or move it to this one
  * - Toggle player modes (minimized, fullscreen)
  * 
  * The player has three states:
@@ -43,6 +54,7 @@ export const MusicPlayer: React.FC = () => {
   const { 
     currentSong,
     queue,
+    nextUp,
     isPlaying,
     volume,
     progress,
@@ -51,16 +63,21 @@ export const MusicPlayer: React.FC = () => {
     previous,
     next,
     setVolume,
+    toggleMute,
     seekTo,
     stopAndClosePlayer,
     isPlayerVisible,
     isFullscreen,
-    toggleFullscreen
+    toggleFullscreen,
+    isQueueVisible: showQueue,
+    showMiniPlayerWaveform,
+    setQueueVisible,
+    toggleQueueVisibility
   } = usePlayer();
   
   const { isAuthenticated } = useAuth();
-  const [showQueue, setShowQueue] = useState(false);
-  const [prevVolume, setPrevVolume] = useState(volume);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showSleepTimer, setShowSleepTimer] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
   const [isMobile, setIsMobile] = useState(window.innerWidth <= 675);
   const [touchStart, setTouchStart] = useState<number | null>(null);
@@ -100,15 +117,6 @@ export const MusicPlayer: React.FC = () => {
     }
   };
   
-  const toggleMute = () => {
-    if (volume > 0) {
-      setPrevVolume(volume);
-      setVolume(0);
-    } else {
-      setVolume(prevVolume);
-    }
-  };
-  
   const toggleMinimize = () => {
     setIsMinimized(!isMinimized);
   };
@@ -151,6 +159,7 @@ export const MusicPlayer: React.FC = () => {
             <div className="flex flex-col w-full">
               <h4 className="text-macchiato-text font-medium truncate">{currentSong.title}</h4>
               <p className="text-macchiato-subtext0 text-sm truncate">{currentSong.artistName}</p>
+              <RemotePlaybackNotice />
               <div 
                 ref={progressBarRef}
                 className="w-full h-1 bg-macchiato-surface0/50 rounded-full mt-2 overflow-hidden cursor-pointer"
@@ -163,6 +172,7 @@ export const MusicPlayer: React.FC = () => {
               </div>
               <div className="flex justify-between text-xs text-macchiato-subtext0 mt-1">
                 <span>{formatDuration(progress)}</span>
+                <SleepTimerStatus />
                 <span>{formatDuration(duration)}</span>
               </div>
             </div>
@@ -217,6 +227,7 @@ export const MusicPlayer: React.FC = () => {
           <div className="truncate">
             <h4 className="text-macchiato-text font-medium truncate">{currentSong.title}</h4>
             <p className="text-macchiato-subtext0 text-sm truncate">{currentSong.artistName}</p>
+            <RemotePlaybackNotice />
           </div>
           
           {/* Favorite button only shown to authenticated users */}
@@ -230,6 +241,8 @@ export const MusicPlayer: React.FC = () => {
           <div className="flex flex-col items-center w-2/4">
             {/* Primary playback control buttons */}
             <div className="flex items-center space-x-4">
+              <ShuffleButton size={16} />
+              
               <button 
                 onClick={previous}
                 className="text-macchiato-overlay2 hover:text-macchiato-text transition-colors"
@@ -250,6 +263,8 @@ export const MusicPlayer: React.FC = () => {
               >
                 <FiSkipForward size={20} />
               </button>
+              
+              <RepeatButton size={16} />
             </div>
             
             {/* Playback progress slider with duration indicators */}
@@ -258,13 +273,24 @@ export const MusicPlayer: React.FC = () => {
                 {formatDuration(progress)}
               </span>
               
-              <Slider 
-                min={0}
-                max={duration}
-                value={progress}
-                onChange={seekTo}
-                className="flex-1"
-              />
+              {showMiniPlayerWaveform ? (
+                <WaveformSeekBar 
+                  song={currentSong}
+                  progress={progress}
+                  duration={duration}
+                  onSeek={seekTo}
+                  height={28}
+                  className="flex-1"
+                />
+              ) : (
+                <Slider 
+                  min={0}
+                  max={duration}
+                  value={progress}
+                  onChange={seekTo}
+                  className="flex-1"
+                />
+              )}
               
               <span className="text-macchiato-subtext0 text-xs">
                 {formatDuration(duration)}
@@ -300,21 +326,58 @@ export const MusicPlayer: React.FC = () => {
           {!isMinimized && (
             <div className="relative">
               <button 
-                onClick={() => setShowQueue(!showQueue)}
+                onClick={() => toggleQueueVisibility()}
                 className={`text-macchiato-overlay2 hover:text-macchiato-text transition-colors ${showQueue ? 'text-macchiato-mauve' : ''}`}
                 title="Show queue"
               >
                 <FiList size={20} />
                 {/* Badge showing number of songs in queue */}
-                {queue.length > 0 && (
+                {queue.length + nextUp.length > 0 && (
                   <span className="absolute -top-2 -right-2 bg-macchiato-mauve text-macchiato-base text-xs rounded-full w-4 h-4 flex items-center justify-center">
-                    {queue.length}
+                    {queue.length + nextUp.length}
                   </span>
                 )}
               </button>
               
               {/* Conditionally render queue panel */}
-              {showQueue && <QueuePanel onClose={() => setShowQueue(false)} />}
+              {showQueue && <QueuePanel onClose={() => setQueueVisible(false)} />}
+            </div>
+          )}
+          
+          {/* Sleep timer button, time left and panel */}
+          {!isMinimized && (
+            <div className="relative flex items-center">
+              <button 
+                onClick={() => {
+                  setShowSleepTimer(!showSleepTimer);
+                  setShowSettings(false);
+                }}
+                className={`flex items-center space-x-1 text-macchiato-overlay2 hover:text-macchiato-text transition-colors ${showSleepTimer ? 'text-macchiato-mauve' : ''}`}
+                title="Sleep timer"
+              >
+                <FiMoon size={18} />
+                <SleepTimerStatus showIcon={false} />
+              </button>
+              
+              {showSleepTimer && <SleepTimerPanel onClose={() => setShowSleepTimer(false)} />}
+            </div>
+          )}
+          
+          {/* Player settings button and panel */}
+          {!isMinimized && (
+            <div className="relative">
+              <button 
+                onClick={() => {
+                  setShowSettings(!showSettings);
+                  setShowSleepTimer(false);
+                }}
+                className={`text-macchiato-overlay2 hover:text-macchiato-text transition-colors ${showSettings ? 'text-macchiato-mauve' : ''}`}
+                title="Player settings"
+              >
+                <FiSettings size={18} />
+              </button>
+              
+              {showSettings && <PlayerSettingsPanel onClose={() => setShowSettings(false)} />}
             </div>
           )}
           
@@ -0,0 +1,82 @@
+import React from 'react';
+import { FiRepeat, FiShuffle } from 'react-icons/fi';
+import { usePlayer } from '../../hooks/usePlayer';
+
+interface PlaybackModeButtonProps {
+  size?: number;
+  className?: string;
+}
+
+const repeatTitles = {
+  off: 'Repeat: off',
+  all: 'Repeat: all',
+  one: 'Repeat: one'
+};
+
+/**
+ * ShuffleButton Component
+ *
+ * Toggles shuffle mode for the current queue. The button is highlighted
+ * while shuffle is active.
+ */
+export const ShuffleButton: React.FC<PlaybackModeButtonProps> = ({
+  size = 18,
+  className = ''
+}) => {
+  const { isShuffled, toggleShuffle } = usePlayer();
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        toggleShuffle();
+      }}
+      className={`transition-colors ${
+        isShuffled
+          ? 'text-macchiato-mauve'
+          : 'text-macchiato-overlay2 hover:text-macchiato-text'
+      } ${className}`}
+      title={isShuffled ? 'Shuffle: on' : 'Shuffle: off'}
+      aria-label={isShuffled ? 'Disable shuffle' : 'Enable shuffle'}
+      aria-pressed={isShuffled}
+    >
+      <FiShuffle size={size} />
+    </button>
+  );
+};
+
+/**
+ * RepeatButton Component
+ *
+ * Cycles through the repeat modes (off, all, one). The button is highlighted
+ * while repeat is active and shows a small "1" badge in repeat-one mode.
+ */
+export const RepeatButton: React.FC<PlaybackModeButtonProps> = ({
+  size = 18,
+  className = ''
+}) => {
+  const { repeatMode, cycleRepeatMode } = usePlayer();
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        cycleRepeatMode();
+      }}
+      className={`relative transition-colors ${
+        repeatMode !== 'off'
+          ? 'text-macchiato-mauve'
+          : 'text-macchiato-overlay2 hover:text-macchiato-text'
+      } ${className}`}
+      title={repeatTitles[repeatMode]}
+      aria-label={repeatTitles[repeatMode]}
+    >
+      <FiRepeat size={size} />
+      {repeatMode === 'one' && (
+        <span className="absolute -top-1.5 -right-1.5 bg-macchiato-mauve text-macchiato-base text-[9px] leading-none rounded-full w-3 h-3 flex items-center justify-center">
+          1
+        </span>
+      )}
+    </button>
+  );
+};
@@ -0,0 +1,142 @@
+import React from 'react';
+import { FiX, FiMinus, FiPlus } from 'react-icons/fi';
+import { Slider } from '../ui/Slider';
+import { usePlayer } from '../../hooks/usePlayer';
+import { formatPlaybackRate } from '../../utils/formatters';
+import {
+  MIN_PLAYBACK_RATE,
+  MAX_PLAYBACK_RATE,
+  PLAYBACK_RATE_STEP,
+  PlaybackRateScope
+} from '../../store/playerStore';
+
+const QUICK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+const SCOPE_OPTIONS: { scope: PlaybackRateScope; label: string }[] = [
+  { scope: 'song', label: 'This song' },
+  { scope: 'global', label: 'All songs' }
+];
+
+interface PlaybackSpeedPanelProps {
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * PlaybackSpeedPanel Component
+ *
+ * A floating panel for changing how fast the current song plays.
+ *
+ * Features:
+ * - Speed from 0.5× to 2× in 0.05 steps, with fine-step buttons
+ * - Quick picks for common speeds
+ * - Keep the original pitch or let it follow the speed
+ * - Remember the speed for the current song only or for all songs
+ */
+export const PlaybackSpeedPanel: React.FC<PlaybackSpeedPanelProps> = ({
+  onClose,
+  className = 'absolute bottom-full right-0 mb-2'
+}) => {
+  const {
+    playbackRate,
+    playbackRateScope,
+    preservePitch,
+    setPlaybackRate,
+    setPlaybackRateScope,
+    setPreservePitch
+  } = usePlayer();
+
+  return (
+    <div
+      className={`${className} w-80 bg-macchiato-base/90 backdrop-blur-lg border border-macchiato-overlay0/30 rounded-lg shadow-neumorphic-dark z-50`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Panel header */}
+      <div className="flex items-center justify-between p-4 border-b border-macchiato-overlay0/20">
+        <h3 className="text-macchiato-text font-medium">Playback speed</h3>
+        <button
+          onClick={onClose}
+          className="text-macchiato-overlay2 hover:text-macchiato-red transition-colors"
+          title="Close playback speed"
+        >
+          <FiX size={20} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Speed slider with fine-step buttons */}
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setPlaybackRate(playbackRate - PLAYBACK_RATE_STEP)}
+            disabled={playbackRate <= MIN_PLAYBACK_RATE}
+            className="text-macchiato-overlay2 hover:text-macchiato-text disabled:opacity-40 transition-colors"
+            title="Slower"
+            aria-label="Slower"
+          >
+            <FiMinus size={16} />
+          </button>
+          <Slider
+            min={MIN_PLAYBACK_RATE}
+            max={MAX_PLAYBACK_RATE}
+            step={PLAYBACK_RATE_STEP}
+            value={playbackRate}
+            onChange={setPlaybackRate}
+            className="flex-1"
+          />
+          <button
+            onClick={() => setPlaybackRate(playbackRate + PLAYBACK_RATE_STEP)}
+            disabled={playbackRate >= MAX_PLAYBACK_RATE}
+            className="text-macchiato-overlay2 hover:text-macchiato-text disabled:opacity-40 transition-colors"
+            title="Faster"
+            aria-label="Faster"
+          >
+            <FiPlus size={16} />
+          </button>
+          <span className="w-12 text-right text-macchiato-text text-sm">{formatPlaybackRate(playbackRate)}</span>
+        </div>
+
+        {/* Quick picks */}
+        <div className="flex justify-between">
+          {QUICK_RATES.map(rate => (
+            <button
+              key={rate}
+              onClick={() => setPlaybackRate(rate)}
+              className={`px-2 py-1 rounded-full text-xs transition-colors ${playbackRate === rate ? 'bg-macchiato-mauve text-macchiato-base' : 'bg-macchiato-surface0 text-macchiato-text hover:bg-macchiato-surface1'}`}
+            >
+              {formatPlaybackRate(rate)}
+            </button>
+          ))}
+        </div>
+
+        {/* Pitch preservation */}
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="text-macchiato-text text-sm">Keep original pitch</span>
+          <input
+            type="checkbox"
+            checked={preservePitch}
+            onChange={(e) => setPreservePitch(e.target.checked)}
+            className="accent-macchiato-mauve w-4 h-4"
+          />
+        </label>
+
+        {/* Where the speed is remembered */}
+        <div className="space-y-2">
+          <span className="text-macchiato-text text-sm">Remember speed for</span>
+          <div className="flex rounded-lg bg-macchiato-surface0 p-1" role="radiogroup" aria-label="Remember speed for">
+            {SCOPE_OPTIONS.map(({ scope, label }) => (
+              <button
+                key={scope}
+                onClick={() => setPlaybackRateScope(scope)}
+                className={`flex-1 py-1 rounded-md text-sm transition-colors ${playbackRateScope === scope ? 'bg-macchiato-mauve text-macchiato-base' : 'text-macchiato-subtext0 hover:text-macchiato-text'}`}
+                role="radio"
+                aria-checked={playbackRateScope === scope}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
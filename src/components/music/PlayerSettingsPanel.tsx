@@ -0,0 +1,172 @@
+import React from 'react';
+import { FiX } from 'react-icons/fi';
+import { Slider } from '../ui/Slider';
+import { usePlayer } from '../../hooks/usePlayer';
+import { MAX_CROSSFADE_SECONDS, RESUME_THRESHOLD_OPTIONS, NormalizationMode } from '../../store/playerStore';
+
+const NORMALIZATION_OPTIONS: { mode: NormalizationMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'track', label: 'Track' },
+  { mode: 'album', label: 'Album' }
+];
+
+interface PlayerSettingsPanelProps {
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * PlayerSettingsPanel Component
+ *
+ * A floating panel with playback preferences that apply to the whole player.
+ *
+ * Features:
+ * - Crossfade duration between tracks (off to 12 seconds)
+ * - Autoplay of similar songs when the queue runs out
+ * - Minimum length of the tracks whose position is remembered, and clearing the saved positions
+ * - Volume normalization per track or per album
+ * - Waveform progress bar in the mini player
+ * - Settings are saved and restored on the next visit
+ */
+export const PlayerSettingsPanel: React.FC<PlayerSettingsPanelProps> = ({
+  onClose,
+  className = 'absolute bottom-full right-0 mb-2'
+}) => {
+  const {
+    crossfadeDuration,
+    setCrossfadeDuration,
+    autoplay,
+    setAutoplay,
+    resumeThresholdMinutes,
+    setResumeThreshold,
+    resumePositions,
+    clearResumePositions,
+    normalizationMode,
+    setNormalizationMode,
+    showMiniPlayerWaveform,
+    setShowMiniPlayerWaveform
+  } = usePlayer();
+  const savedPositionCount = Object.keys(resumePositions).length;
+
+  return (
+    <div
+      className={`${className} w-80 bg-macchiato-base/90 backdrop-blur-lg border border-macchiato-overlay0/30 rounded-lg shadow-neumorphic-dark z-50`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Panel header */}
+      <div className="flex items-center justify-between p-4 border-b border-macchiato-overlay0/20">
+        <h3 className="text-macchiato-text font-medium">Player settings</h3>
+        <button
+          onClick={onClose}
+          className="text-macchiato-overlay2 hover:text-macchiato-red transition-colors"
+          title="Close settings"
+        >
+          <FiX size={20} />
+        </button>
+      </div>
+
+      {/* Crossfade duration */}
+      <div className="p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-macchiato-text text-sm">Crossfade</span>
+          <span className="text-macchiato-subtext0 text-xs">
+            {crossfadeDuration > 0 ? `${crossfadeDuration} s` : 'Off'}
+          </span>
+        </div>
+        <Slider
+          min={0}
+          max={MAX_CROSSFADE_SECONDS}
+          step={1}
+          value={crossfadeDuration}
+          onChange={setCrossfadeDuration}
+        />
+        <p className="text-macchiato-overlay1 text-xs">
+          Overlaps the end of each song with the start of the next. Tracks from the same album play without crossfade.
+        </p>
+      </div>
+
+      {/* Autoplay when the queue runs out */}
+      <div className="p-4 space-y-2 border-t border-macchiato-overlay0/20">
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="text-macchiato-text text-sm">Autoplay</span>
+          <input
+            type="checkbox"
+            checked={autoplay}
+            onChange={(e) => setAutoplay(e.target.checked)}
+            className="accent-macchiato-mauve w-4 h-4"
+          />
+        </label>
+        <p className="text-macchiato-overlay1 text-xs">
+          Keeps playing similar songs when the queue runs out: the same artists and genres, and your favorites. Recently played songs are left out.
+        </p>
+      </div>
+
+      {/* Resume position of long tracks */}
+      <div className="p-4 space-y-2 border-t border-macchiato-overlay0/20">
+        <span className="text-macchiato-text text-sm">Resume long tracks</span>
+        <div className="flex rounded-lg bg-macchiato-surface0 p-1" role="radiogroup" aria-label="Resume tracks longer than">
+          {RESUME_THRESHOLD_OPTIONS.map(minutes => (
+            <button
+              key={minutes}
+              onClick={() => setResumeThreshold(minutes)}
+              className={`flex-1 py-1 rounded-md text-sm transition-colors ${resumeThresholdMinutes === minutes ? 'bg-macchiato-mauve text-macchiato-base' : 'text-macchiato-subtext0 hover:text-macchiato-text'}`}
+              role="radio"
+              aria-checked={resumeThresholdMinutes === minutes}
+            >
+              {minutes > 0 ? `${minutes}m` : 'Off'}
+            </button>
+          ))}
+        </div>
+        <p className="text-macchiato-overlay1 text-xs">
+          {resumeThresholdMinutes > 0
+            ? `Remembers where you left tracks of ${resumeThresholdMinutes} minutes or more, such as DJ mixes and live sets, and offers to resume them.`
+            : 'Long tracks always start from the beginning.'}
+        </p>
+        {savedPositionCount > 0 && (
+          <button
+            onClick={clearResumePositions}
+            className="text-macchiato-mauve hover:underline text-xs"
+          >
+            Clear {savedPositionCount} saved {savedPositionCount === 1 ? 'position' : 'positions'}
+          </button>
+        )}
+      </div>
+
+      {/* Volume normalization mode */}
+      <div className="p-4 space-y-2 border-t border-macchiato-overlay0/20">
+        <span className="text-macchiato-text text-sm">Volume normalization</span>
+        <div className="flex rounded-lg bg-macchiato-surface0 p-1" role="radiogroup" aria-label="Volume normalization">
+          {NORMALIZATION_OPTIONS.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => setNormalizationMode(mode)}
+              className={`flex-1 py-1 rounded-md text-sm transition-colors ${normalizationMode === mode ? 'bg-macchiato-mauve text-macchiato-base' : 'text-macchiato-subtext0 hover:text-macchiato-text'}`}
+              role="radio"
+              aria-checked={normalizationMode === mode}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="text-macchiato-overlay1 text-xs">
+          {normalizationMode === 'album'
+            ? 'Plays every album at the same loudness while keeping the differences between its songs.'
+            : 'Plays every song at the same loudness. Each song is measured once, the first time it plays.'}
+        </p>
+      </div>
+
+      {/* Mini player progress style */}
+      <div className="p-4 border-t border-macchiato-overlay0/20">
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="text-macchiato-text text-sm">Waveform in mini player</span>
+          <input
+            type="checkbox"
+            checked={showMiniPlayerWaveform}
+            onChange={(e) => setShowMiniPlayerWaveform(e.target.checked)}
+            className="accent-macchiato-mauve w-4 h-4"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
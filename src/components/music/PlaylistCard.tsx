@@ -26,7 +26,7 @@ interface PlaylistCardProps {
  * - Song count display
  */
 export const PlaylistCard: React.FC<PlaylistCardProps> = ({ playlist, className = '' }) => {
-  const { playQueue, isPlaying, togglePlay, currentPlaylist } = usePlayer();
+  const { playPlaylist, isPlaying, togglePlay, currentPlaylist } = usePlayer();
   const [coverImage, setCoverImage] = useState<string>('');
   
   const isCurrentPlaylist = currentPlaylist?.id === playlist.id;
@@ -41,7 +41,7 @@ export const PlaylistCard: React.FC<PlaylistCardProps> = ({ playlist, className
     if (isCurrentPlaylist && isPlaying) {
       togglePlay();
     } else if (playlist.songs && playlist.songs.length > 0) {
-      playQueue(playlist.songs, 0);
+      playPlaylist(playlist, 0);
     }
   };
   
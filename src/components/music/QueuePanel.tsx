@@ -1,13 +1,147 @@
-import React, { useState } from 'react';
-import { FiMusic, FiX, FiTrash2, FiArrowUp, FiArrowDown } from 'react-icons/fi';
+import React, { useState, useRef } from 'react';
+import { FiMusic, FiX, FiTrash2, FiMenu, FiSave, FiRadio } from 'react-icons/fi';
 import { usePlayer } from '../../hooks/usePlayer';
+import { useReorderableList, moveItem } from '../../hooks/useReorderableList';
+import { useAuth } from '../../hooks/useAuth';
+import { usePlayerStore, isSongUnavailable } from '../../store/playerStore';
 import { formatDuration, getImageUrl } from '../../utils/formatters';
 import { SongDto } from '../../types';
+import { ShuffleButton, RepeatButton } from './PlaybackModeButtons';
+import { SaveQueueAsPlaylist } from './SaveQueueAsPlaylist';
 
 interface QueuePanelProps {
   onClose: () => void;
 }
 
+type ReorderableList = ReturnType<typeof useReorderableList>;
+
+interface QueueSongRowProps {
+  song: SongDto;
+  position: number;
+  onPlay: () => void;
+  onRemove: () => void;
+  removeTitle: string;
+  /** The song's file is missing, so it is skipped when its turn comes */
+  isUnavailable: boolean;
+  /** The song was suggested by autoplay rather than queued */
+  isAutoplay?: boolean;
+  isDragged?: boolean;
+  /** Reordering props; rows without them have no drag handle */
+  itemProps?: ReturnType<ReorderableList['getItemProps']>;
+  handleProps?: ReturnType<ReorderableList['getHandleProps']>;
+}
+
+/**
+ * Label for songs that autoplay picked
+ */
+const AutoplayBadge: React.FC = () => (
+  <span
+    className="inline-flex items-center ml-2 px-1.5 rounded bg-macchiato-mauve/20 text-macchiato-mauve text-[10px] uppercase tracking-wider flex-shrink-0"
+    title="Picked by autoplay"
+  >
+    <FiRadio size={10} className="mr-1" />
+    Autoplay
+  </span>
+);
+
+/**
+ * A song in the queue list, with a drag handle for reordering when the list can be reordered
+ */
+const QueueSongRow: React.FC<QueueSongRowProps> = ({
+  song,
+  position,
+  onPlay,
+  onRemove,
+  removeTitle,
+  isUnavailable,
+  isAutoplay = false,
+  isDragged = false,
+  itemProps,
+  handleProps
+}) => (
+  <li
+    {...itemProps}
+    className={`flex items-center px-4 py-2 border-b border-macchiato-overlay0/10 last:border-b-0 transition-colors ${isDragged ? 'bg-macchiato-surface0 shadow-neumorphic-dark' : 'hover:bg-macchiato-surface0/50'}`}
+  >
+    {/* Drag handle, also used for keyboard reordering */}
+    {handleProps ? (
+      <button
+        {...handleProps}
+        className="text-macchiato-overlay1 hover:text-macchiato-mauve cursor-grab active:cursor-grabbing mr-1 focus:outline-none focus-visible:ring-2 focus-visible:ring-macchiato-mauve/50 rounded"
+        title="Drag to reorder"
+      >
+        <FiMenu size={14} />
+      </button>
+    ) : (
+      <span className="w-[14px] mr-1 flex-shrink-0" />
+    )}
+    
+    {/* Track number in queue */}
+    <div className="text-macchiato-overlay1 w-6 text-center text-sm">
+      {position}
+    </div>
+    
+    {/* Album artwork with fallback */}
+    <div className="w-8 h-8 bg-macchiato-surface0 rounded overflow-hidden mx-2 flex-shrink-0">
+      {song.albumId ? (
+        <img 
+          src={getImageUrl(`album${song.albumId}.jpg`)}
+          alt={song.albumName || 'Album cover'}
+          className="w-full h-full object-cover"
+          onError={(e) => {
+            // Handle image load failure
+            e.currentTarget.onerror = null;
+            e.currentTarget.src = '';
+            const parent = e.currentTarget.parentElement;
+            if (parent) {
+              parent.classList.add('flex', 'items-center', 'justify-center');
+              const icon = document.createElement('div');
+              icon.className = 'text-macchiato-mauve';
+              icon.innerHTML = '<svg stroke="currentColor" fill="none" stroke-width="2" viewBox="0 0 24 24" stroke-linecap="round" stroke-linejoin="round" height="16" width="16" xmlns="http://www.w3.org/2000/svg"><path d="M9 18V5l12-2v13"></path><circle cx="6" cy="18" r="3"></circle><circle cx="18" cy="16" r="3"></circle></svg>';
+              parent.appendChild(icon);
+            }
+          }}
+        />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <FiMusic className="text-macchiato-mauve" size={14} />
+        </div>
+      )}
+    </div>
+    
+    {/* Song title and artist (clickable to play this song) */}
+    <div className={`min-w-0 flex-1 cursor-pointer ${isUnavailable ? 'opacity-60' : ''}`} onClick={onPlay}>
+      <p className="flex items-center text-macchiato-text text-sm hover:text-macchiato-mauve">
+        <span className="truncate">{song.title}</span>
+        {isAutoplay && <AutoplayBadge />}
+      </p>
+      <p className="text-macchiato-subtext0 text-xs truncate">
+        {isUnavailable ? (
+          <span className="text-macchiato-red" title="The file for this song could not be found">
+            Unavailable · will be skipped
+          </span>
+        ) : (
+          song.artistName
+        )}
+      </p>
+    </div>
+    
+    {/* Song duration */}
+    <span className="text-macchiato-subtext1 text-xs mx-2">
+      {formatDuration(song.duration)}
+    </span>
+    
+    {/* Remove button */}
+    <button
+      onClick={onRemove}
+      className="text-macchiato-overlay1 hover:text-macchiato-red transition-colors ml-2"
+      title={removeTitle}
+    >
+      <FiX size={18} />
+    </button>
+  </li>
+);
+
 /**
  * QueuePanel Component
  * 
@@ -16,11 +150,20 @@ interface QueuePanelProps {
  * 
  * Features:
  * - Displays currently playing song with album art and metadata
+ * - "Next up" section for songs the user queued, played before the rest of
+ *   the album or playlist and clearable on its own
  * - Shows all queued songs with album art, title, artist, and duration
- * - Allows reordering songs in the queue via up/down controls
+ * - Lists the songs autoplay picked to follow the queue, labeled as such
+ * - Marks songs whose file is missing, which are skipped when reached
+ * - Drag-and-drop reordering with mouse or touch, scrolling the list near its edges
+ * - Keyboard reordering (pick up, move with the arrow keys, drop) with
+ *   screen reader announcements
  * - Provides removal of individual songs from the queue
  * - Offers a clear queue function with confirmation dialog
+ * - Saves the current song and the queue as a new playlist, or appends them
+ *   to an existing one
  * - Shows total queue duration
+ * - Shows and toggles the shuffle and repeat modes
  * - Scrollable list for long queues with fixed header
  * - Fallback UI for empty queue state
  */
@@ -28,70 +171,101 @@ export const QueuePanel: React.FC<QueuePanelProps> = ({ onClose }) => {
   const { 
     currentSong, 
     queue, 
+    nextUp,
+    autoplayQueue,
+    unavailableSongIds,
     removeFromQueue, 
+    removeFromNextUp,
+    removeFromAutoplayQueue,
     clearQueue,
-    playSong
+    clearNextUp,
+    updateQueueOrder,
+    updateNextUpOrder,
+    playSong,
+    isShuffled,
+    repeatMode
   } = usePlayer();
+  const playSource = usePlayerStore(state => state.playSource);
+  const isCurrentSongAutoplayed = usePlayerStore(state => state.currentSource?.type === 'autoplay');
+  const { isAuthenticated } = useAuth();
   
   const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const [showSaveForm, setShowSaveForm] = useState(false);
   
-  const moveSongUp = (index: number) => {
-    if (index <= 0) return;
-    
-    const newQueue = [...queue];
-    [newQueue[index], newQueue[index - 1]] = [newQueue[index - 1], newQueue[index]];
-    
-    const removedSong = newQueue[index];
-    removeFromQueue(index);
-    removeFromQueue(index - 1);
-    
-    setTimeout(() => {
-      playSong(removedSong);
-      setTimeout(() => {
-        playSong(newQueue[index - 1]);
-      }, 100);
-    }, 100);
-  };
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
   
-
-  const moveSongDown = (index: number) => {
-    if (index >= queue.length - 1) return;
-    
-    const newQueue = [...queue];
-    [newQueue[index], newQueue[index + 1]] = [newQueue[index + 1], newQueue[index]];
-    
-    const removedSong = newQueue[index];
-    removeFromQueue(index);
-    removeFromQueue(index);
-    
-    setTimeout(() => {
-      playSong(removedSong);
-      setTimeout(() => {
-        playSong(newQueue[index]);
-      }, 100);
-    }, 100);
+  const nextUpReorder = useReorderableList({
+    itemCount: nextUp.length,
+    getItemLabel: (index) => nextUp[index]?.title ?? '',
+    onReorder: (from, to) => updateNextUpOrder(moveItem(nextUp, from, to)),
+    scrollContainerRef
+  });
+  
+  const queueReorder = useReorderableList({
+    itemCount: queue.length,
+    getItemLabel: (index) => queue[index]?.title ?? '',
+    onReorder: (from, to) => updateQueueOrder(moveItem(queue, from, to)),
+    scrollContainerRef
+  });
+  
+  const upcomingCount = nextUp.length + queue.length;
+  const totalDuration = [...nextUp, ...queue].reduce((total, song: SongDto) => total + (song.duration || 0), 0);
+  const contextTitle = playSource?.name ? `Next from ${playSource.name}` : 'Next in queue';
+  
+  const playFromNextUp = (index: number) => {
+    const song = nextUp[index];
+    removeFromNextUp(index);
+    playSong(song, { type: 'queue' });
   };
   
-  const totalDuration = queue.reduce((total, song: SongDto) => total + (song.duration || 0), 0);
+  const playFromAutoplay = (index: number) => {
+    const song = autoplayQueue[index];
+    removeFromAutoplayQueue(index);
+    playSong(song, { type: 'autoplay', name: 'Autoplay' });
+  };
   
   return (
     <div className="absolute bottom-full right-0 mb-2 w-96 max-h-[70vh] flex flex-col bg-macchiato-base/90 backdrop-blur-lg border border-macchiato-overlay0/30 rounded-lg shadow-neumorphic-dark overflow-hidden z-50">
       {/* Panel header with title, duration, and action buttons */}
       <div className="flex items-center justify-between p-4 border-b border-macchiato-overlay0/20">
         <div>
-          <h3 className="text-macchiato-text font-medium">Queue ({queue.length})</h3>
-          {queue.length > 0 && (
+          <h3 className="text-macchiato-text font-medium">Queue ({upcomingCount})</h3>
+          {upcomingCount > 0 && (
             <p className="text-macchiato-subtext0 text-xs">
               Total: {formatDuration(totalDuration)}
             </p>
           )}
+          {(isShuffled || repeatMode !== 'off') && (
+            <p className="text-macchiato-mauve text-xs">
+              {[isShuffled && 'Shuffle', repeatMode === 'all' && 'Repeat all', repeatMode === 'one' && 'Repeat one']
+                .filter(Boolean)
+                .join(' • ')}
+            </p>
+          )}
         </div>
         
         {/* Queue management buttons */}
         <div className="flex items-center space-x-2">
+          {/* Playback mode toggles */}
+          <ShuffleButton size={16} />
+          <RepeatButton size={16} />
+          
+          {/* Save queue as playlist */}
+          {isAuthenticated && currentSong && (
+            <button
+              onClick={() => setShowSaveForm(!showSaveForm)}
+              className={`transition-colors ${showSaveForm ? 'text-macchiato-mauve' : 'text-macchiato-overlay2 hover:text-macchiato-mauve'}`}
+              title="Save queue as playlist"
+              aria-label="Save queue as playlist"
+              aria-expanded={showSaveForm}
+            >
+              <FiSave size={18} />
+            </button>
+          )}
+          
           {queue.length > 0 && (
             <>
-              {/* Clear queue button with confirmation dialog */}
+              {/* Clear the album or playlist part of the queue, with confirmation dialog */}
               {showClearConfirm ? (
                 <div className="flex items-center">
                   <button 
@@ -114,7 +288,7 @@ export const QueuePanel: React.FC<QueuePanelProps> = ({ onClose }) => {
                 <button 
                   onClick={() => setShowClearConfirm(true)}
                   className="text-macchiato-overlay2 hover:text-macchiato-red transition-colors"
-                  title="Clear queue"
+                  title="Clear remaining songs"
                 >
                   <FiTrash2 size={18} />
                 </button>
@@ -133,6 +307,14 @@ export const QueuePanel: React.FC<QueuePanelProps> = ({ onClose }) => {
         </div>
       </div>
       
+      {/* Save queue as playlist form */}
+      {showSaveForm && currentSong && (
+        <SaveQueueAsPlaylist
+          songs={[currentSong, ...nextUp, ...queue]}
+          onClose={() => setShowSaveForm(false)}
+        />
+      )}
+      
       {/* Currently playing song section */}
       {currentSong && (
         <div className="p-4 border-b border-macchiato-overlay0/20">
@@ -167,7 +349,10 @@ export const QueuePanel: React.FC<QueuePanelProps> = ({ onClose }) => {
             
             {/* Song title and artist */}
             <div className="min-w-0 flex-1">
-              <p className="text-macchiato-text font-medium truncate">{currentSong.title}</p>
+              <p className="flex items-center text-macchiato-text font-medium">
+                <span className="truncate">{currentSong.title}</span>
+                {isCurrentSongAutoplayed && <AutoplayBadge />}
+              </p>
               <p className="text-macchiato-subtext0 text-sm truncate">{currentSong.artistName}</p>
             </div>
             
@@ -180,8 +365,8 @@ export const QueuePanel: React.FC<QueuePanelProps> = ({ onClose }) => {
       )}
       
       {/* Queue list container with scrollable area */}
-      <div className="flex-1 overflow-y-auto">
-        {queue.length === 0 ? (
+      <div ref={scrollContainerRef} className="flex-1 overflow-y-auto">
+        {upcomingCount === 0 && autoplayQueue.length === 0 ? (
           <div className="p-8 text-center">
             <p className="text-macchiato-subtext0">No songs in queue</p>
             <p className="text-macchiato-overlay0 text-sm mt-1">
@@ -189,93 +374,99 @@ export const QueuePanel: React.FC<QueuePanelProps> = ({ onClose }) => {
             </p>
           </div>
         ) : (
-          <ul className="pb-2">
-            {queue.map((song: SongDto, index) => (
-              <li 
-                key={`${song.id}-${index}`}
-                className="flex items-center px-4 py-2 border-b border-macchiato-overlay0/10 last:border-b-0 hover:bg-macchiato-surface0/50 transition-colors"
-              >
-                {/* Track number in queue */}
-                <div className="text-macchiato-overlay1 w-6 text-center text-sm">
-                  {index + 1}
-                </div>
-                
-                {/* Album artwork with fallback */}
-                <div className="w-8 h-8 bg-macchiato-surface0 rounded overflow-hidden mx-2 flex-shrink-0">
-                  {song.albumId ? (
-                    <img 
-                      src={getImageUrl(`album${song.albumId}.jpg`)}
-                      alt={song.albumName || 'Album cover'}
-                      className="w-full h-full object-cover"
-                      onError={(e) => {
-                        // Handle image load failure
-                        e.currentTarget.onerror = null;
-                        e.currentTarget.src = '';
-                        const parent = e.currentTarget.parentElement;
-                        if (parent) {
-                          parent.classList.add('flex', 'items-center', 'justify-center');
-                          const icon = document.createElement('div');
-                          icon.className = 'text-macchiato-mauve';
-                          icon.innerHTML = '<svg stroke="currentColor" fill="none" stroke-width="2" viewBox="0 0 24 24" stroke-linecap="round" stroke-linejoin="round" height="16" width="16" xmlns="http://www.w3.org/2000/svg"><path d="M9 18V5l12-2v13"></path><circle cx="6" cy="18" r="3"></circle><circle cx="18" cy="16" r="3"></circle></svg>';
-                          parent.appendChild(icon);
-                        }
-                      }}
-                    />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center">
-                      <FiMusic className="text-macchiato-mauve" size={14} />
-                    </div>
-                  )}
-                </div>
-                
-                {/* Song title and artist (clickable to play this song) */}
-                <div className="min-w-0 flex-1 cursor-pointer" onClick={() => playSong(song)}>
-                  <p className="text-macchiato-text text-sm truncate hover:text-macchiato-mauve">
-                    {song.title}
-                  </p>
-                  <p className="text-macchiato-subtext0 text-xs truncate">
-                    {song.artistName}
-                  </p>
-                </div>
-                
-                {/* Song duration */}
-                <span className="text-macchiato-subtext1 text-xs mx-2">
-                  {formatDuration(song.duration)}
-                </span>
-                
-                {/* Reordering controls */}
-                <div className="flex flex-col mx-1">
-                  <button
-                    onClick={() => moveSongUp(index)}
-                    disabled={index === 0}
-                    className={`text-xs ${index === 0 ? 'text-macchiato-overlay0 cursor-not-allowed' : 'text-macchiato-overlay1 hover:text-macchiato-mauve cursor-pointer'}`}
-                    title="Move up"
-                  >
-                    <FiArrowUp size={14} />
-                  </button>
+          <>
+            {/* Songs queued by the user, played first */}
+            {nextUp.length > 0 && (
+              <section>
+                <div className="flex items-center justify-between px-4 pt-3 pb-1">
+                  <h4 className="text-macchiato-subtext0 text-xs uppercase tracking-wider">Next up</h4>
                   <button
-                    onClick={() => moveSongDown(index)}
-                    disabled={index === queue.length - 1}
-                    className={`text-xs ${index === queue.length - 1 ? 'text-macchiato-overlay0 cursor-not-allowed' : 'text-macchiato-overlay1 hover:text-macchiato-mauve cursor-pointer'}`}
-                    title="Move down"
+                    onClick={clearNextUp}
+                    className="text-xs text-macchiato-overlay1 hover:text-macchiato-red transition-colors"
+                    title="Clear next up"
                   >
-                    <FiArrowDown size={14} />
+                    Clear
                   </button>
                 </div>
-                
-                {/* Remove from queue button */}
-                <button
-                  onClick={() => removeFromQueue(index)}
-                  className="text-macchiato-overlay1 hover:text-macchiato-red transition-colors ml-2"
-                  title="Remove from queue"
-                >
-                  <FiX size={18} />
-                </button>
-              </li>
-            ))}
-          </ul>
+                <ul ref={nextUpReorder.listRef} className="pb-2">
+                  {nextUp.map((song: SongDto, index) => (
+                    <QueueSongRow
+                      key={`next-${song.id}-${index}`}
+                      song={song}
+                      position={index + 1}
+                      onPlay={() => playFromNextUp(index)}
+                      onRemove={() => removeFromNextUp(index)}
+                      removeTitle="Remove from next up"
+                      isUnavailable={isSongUnavailable({ unavailableSongIds }, song)}
+                      isDragged={nextUpReorder.draggedIndex === index}
+                      itemProps={nextUpReorder.getItemProps(index)}
+                      handleProps={nextUpReorder.getHandleProps(index)}
+                    />
+                  ))}
+                </ul>
+              </section>
+            )}
+            
+            {/* The rest of the album or playlist that is playing */}
+            {queue.length > 0 && (
+              <section>
+                <h4 className="px-4 pt-3 pb-1 text-macchiato-subtext0 text-xs uppercase tracking-wider truncate">
+                  {contextTitle}
+                </h4>
+                <ul ref={queueReorder.listRef} className="pb-2">
+                  {queue.map((song: SongDto, index) => (
+                    <QueueSongRow
+                      key={`${song.id}-${index}`}
+                      song={song}
+                      position={nextUp.length + index + 1}
+                      onPlay={() => playSong(song)}
+                      onRemove={() => removeFromQueue(index)}
+                      removeTitle="Remove from queue"
+                      isUnavailable={isSongUnavailable({ unavailableSongIds }, song)}
+                      isDragged={queueReorder.draggedIndex === index}
+                      itemProps={queueReorder.getItemProps(index)}
+                      handleProps={queueReorder.getHandleProps(index)}
+                    />
+                  ))}
+                </ul>
+              </section>
+            )}
+            
+            {/* Similar songs that autoplay picked to follow the queue */}
+            {autoplayQueue.length > 0 && (
+              <section>
+                <h4 className="px-4 pt-3 pb-1 text-macchiato-subtext0 text-xs uppercase tracking-wider">
+                  Autoplay · similar songs
+                </h4>
+                <ul className="pb-2">
+                  {autoplayQueue.map((song: SongDto, index) => (
+                    <QueueSongRow
+                      key={`autoplay-${song.id}-${index}`}
+                      song={song}
+                      position={upcomingCount + index + 1}
+                      onPlay={() => playFromAutoplay(index)}
+                      onRemove={() => removeFromAutoplayQueue(index)}
+                      removeTitle="Remove from autoplay"
+                      isUnavailable={isSongUnavailable({ unavailableSongIds }, song)}
+                      isAutoplay
+                    />
+                  ))}
+                </ul>
+              </section>
+            )}
+          </>
         )}
       </div>
+      
+      {/* Reordering instructions and announcements for screen readers */}
+      <p id={nextUpReorder.instructionsId} className="sr-only">{nextUpReorder.instructions}</p>
+      <p id={queueReorder.instructionsId} className="sr-only">{queueReorder.instructions}</p>
+      <div className="sr-only" aria-live="assertive" aria-atomic="true">
+        {nextUpReorder.announcement}
+      </div>
+      <div className="sr-only" aria-live="assertive" aria-atomic="true">
+        {queueReorder.announcement}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,38 @@
+import React from 'react';
+import { FiMonitor } from 'react-icons/fi';
+import { usePlayer } from '../../hooks/usePlayer';
+import { playerSyncService } from '../../services/playerSync.service';
+
+/**
+ * RemotePlaybackNotice Component
+ *
+ * Tells the user that the music is playing in another browser tab, in which
+ * case the controls in this tab act as a remote. Renders nothing while this
+ * tab plays itself.
+ *
+ * Features:
+ * - Compact label that fits next to the song details
+ * - "Play here" action that moves playback to this tab
+ */
+export const RemotePlaybackNotice: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { isRemoteControl } = usePlayer();
+
+  if (!isRemoteControl) return null;
+
+  return (
+    <span className={`inline-flex items-center space-x-1 text-macchiato-subtext0 text-xs ${className}`}>
+      <FiMonitor size={12} />
+      <span className="truncate">Playing in another tab</span>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          playerSyncService.takeOver();
+        }}
+        className="text-macchiato-mauve hover:underline whitespace-nowrap"
+        title="Play in this tab instead"
+      >
+        Play here
+      </button>
+    </span>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { FiX, FiAlertTriangle, FiCheck } from 'react-icons/fi';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { useAuth } from '../../hooks/useAuth';
+import { playlistService } from '../../services/playlist.service';
+import { PlaylistDto, SongDto } from '../../types';
+
+type SaveTarget = 'new' | 'existing';
+
+const TARGET_OPTIONS: { target: SaveTarget; label: string }[] = [
+  { target: 'new', label: 'New playlist' },
+  { target: 'existing', label: 'Existing playlist' }
+];
+
+interface SaveResult {
+  playlist: PlaylistDto;
+  addedCount: number;
+  failed: SongDto[];
+}
+
+interface SaveQueueAsPlaylistProps {
+  /** Songs to save, in playing order */
+  songs: SongDto[];
+  onClose: () => void;
+}
+
+const getDefaultName = () => `Queue ${new Date().toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+/**
+ * SaveQueueAsPlaylist Component
+ *
+ * A form in the queue panel that keeps the current listening session by
+ * saving the current song and the queue as a playlist.
+ *
+ * Features:
+ * - Create a new playlist or append to one of the user's playlists
+ * - Songs are added in playing order, with a progress bar
+ * - Songs that could not be added are listed and can be retried
+ */
+export const SaveQueueAsPlaylist: React.FC<SaveQueueAsPlaylistProps> = ({ songs, onClose }) => {
+  const { user } = useAuth();
+  const [target, setTarget] = useState<SaveTarget>('new');
+  const [name, setName] = useState(getDefaultName);
+  const [playlists, setPlaylists] = useState<PlaylistDto[] | null>(null);
+  const [selectedPlaylistId, setSelectedPlaylistId] = useState<number | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [result, setResult] = useState<SaveResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSaving = progress !== null && result === null;
+
+  /**
+   * Load the user's playlists the first time appending is chosen
+   */
+  useEffect(() => {
+    if (target !== 'existing' || playlists !== null || !user?.id) return;
+
+    playlistService.getPlaylistsByUserId(user.id).then(response => {
+      if (response.data) {
+        setPlaylists(response.data);
+        setSelectedPlaylistId(response.data[0]?.id ?? null);
+      } else {
+        setPlaylists([]);
+        setError(response.error || 'Failed to load playlists');
+      }
+    });
+  }, [target, playlists, user]);
+
+  const addSongs = async (playlist: PlaylistDto, songsToAdd: SongDto[], previous?: SaveResult) => {
+    setResult(null);
+    setProgress({ completed: 0, total: songsToAdd.length });
+
+    const { added, failed } = await playlistService.addSongsToPlaylist(
+      playlist.id!,
+      songsToAdd,
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    setResult({
+      playlist,
+      addedCount: (previous?.addedCount ?? 0) + added.length,
+      failed
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!user?.id) return;
+
+    if (target === 'new') {
+      if (!name.trim()) {
+        setError('Please enter a playlist name');
+        return;
+      }
+
+      setProgress({ completed: 0, total: songs.length });
+      const response = await playlistService.createPlaylist({ name: name.trim(), userId: user.id, songs: [] });
+      if (!response.data?.id) {
+        setProgress(null);
+        setError(response.error || 'Failed to create playlist');
+        return;
+      }
+      await addSongs(response.data, songs);
+    } else {
+      const playlist = playlists?.find(p => p.id === selectedPlaylistId);
+      if (!playlist) {
+        setError('Please choose a playlist');
+        return;
+      }
+      await addSongs(playlist, songs);
+    }
+  };
+
+  return (
+    <div className="p-4 border-b border-macchiato-overlay0/20 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-macchiato-text text-sm font-medium">Save queue as playlist</h4>
+        <button
+          onClick={onClose}
+          className="text-macchiato-overlay2 hover:text-macchiato-red transition-colors"
+          title="Close"
+          aria-label="Close"
+        >
+          <FiX size={16} />
+        </button>
+      </div>
+
+      {result ? (
+        // Outcome, with the songs that could not be added
+        <div className="space-y-2 text-sm">
+          <p className="flex items-center text-macchiato-text">
+            <FiCheck className="mr-2 text-macchiato-green flex-shrink-0" size={16} />
+            <span>
+              Added {result.addedCount} {result.addedCount === 1 ? 'song' : 'songs'} to{' '}
+              <Link to={`/playlists/${result.playlist.id}`} className="text-macchiato-mauve hover:underline">
+                {result.playlist.name}
+              </Link>
+            </span>
+          </p>
+
+          {result.failed.length > 0 && (
+            <div className="bg-macchiato-red/10 border border-macchiato-red/40 rounded-lg p-2 space-y-1">
+              <p className="flex items-center text-macchiato-red">
+                <FiAlertTriangle className="mr-2 flex-shrink-0" size={14} />
+                {result.failed.length} {result.failed.length === 1 ? 'song' : 'songs'} could not be added:
+              </p>
+              <ul className="text-macchiato-subtext0 text-xs max-h-24 overflow-y-auto pl-6 list-disc">
+                {result.failed.map((song, index) => (
+                  <li key={`${song.id}-${index}`} className="truncate">
+                    {song.title} — {song.artistName}
+                  </li>
+                ))}
+              </ul>
+              <Button variant="secondary" size="sm" onClick={() => addSongs(result.playlist, result.failed, result)}>
+                Retry failed songs
+              </Button>
+            </div>
+          )}
+
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      ) : isSaving ? (
+        // Progress while the songs are added
+        <div className="space-y-1">
+          <p className="text-macchiato-subtext0 text-xs">
+            Adding songs… {progress.completed} of {progress.total}
+          </p>
+          <div
+            className="h-1.5 bg-macchiato-surface0 rounded-full overflow-hidden"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={progress.total}
+            aria-valuenow={progress.completed}
+          >
+            <div
+              className="h-full bg-macchiato-mauve transition-all duration-200"
+              style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      ) : (
+        // New or existing playlist form
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="flex rounded-lg bg-macchiato-surface0 p-1" role="radiogroup" aria-label="Save to">
+            {TARGET_OPTIONS.map(option => (
+              <button
+                key={option.target}
+                type="button"
+                onClick={() => setTarget(option.target)}
+                className={`flex-1 py-1 rounded-md text-sm transition-colors ${target === option.target ? 'bg-macchiato-mauve text-macchiato-base' : 'text-macchiato-subtext0 hover:text-macchiato-text'}`}
+                role="radio"
+                aria-checked={target === option.target}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {target === 'new' ? (
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Playlist name"
+              aria-label="Playlist name"
+              maxLength={100}
+              fullWidth
+              className="text-sm"
+            />
+          ) : playlists === null ? (
+            <p className="text-macchiato-subtext0 text-xs">Loading playlists…</p>
+          ) : playlists.length === 0 ? (
+            <p className="text-macchiato-subtext0 text-xs">You have no playlists yet.</p>
+          ) : (
+            <select
+              className="w-full bg-macchiato-surface0/60 backdrop-blur-glass border border-macchiato-overlay0/20 text-macchiato-text text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-macchiato-mauve/20 focus:border-macchiato-mauve"
+              value={selectedPlaylistId ?? ''}
+              onChange={(e) => setSelectedPlaylistId(Number(e.target.value))}
+              aria-label="Playlist"
+            >
+              {playlists.map(playlist => (
+                <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+              ))}
+            </select>
+          )}
+
+          {error && <p className="text-macchiato-red text-xs">{error}</p>}
+
+          <div className="flex items-center justify-between">
+            <span className="text-macchiato-subtext0 text-xs">
+              {songs.length} {songs.length === 1 ? 'song' : 'songs'}
+            </span>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={songs.length === 0 || (target === 'existing' && !selectedPlaylistId)}
+            >
+              {target === 'new' ? 'Create playlist' : 'Add to playlist'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React from 'react';
+import { FiX, FiMoon } from 'react-icons/fi';
+import { Button } from '../ui/Button';
+import { usePlayer } from '../../hooks/usePlayer';
+import { usePlayerStore, SleepTimer, SLEEP_FADE_SECONDS } from '../../store/playerStore';
+import { formatDuration } from '../../utils/formatters';
+
+const DURATION_OPTIONS = [5, 15, 30, 45, 60, 90];
+const EXTEND_OPTIONS = [5, 15];
+
+/**
+ * Describes a running sleep timer, e.g. "12:30" or "End of track"
+ */
+const describeTimer = (timer: SleepTimer, remaining: number | null, contextName: string): string => {
+  if (remaining !== null) return formatDuration(remaining);
+  return timer.mode === 'endOfTrack' ? 'End of track' : `End of ${contextName}`;
+};
+
+/**
+ * Returns what "the current album or playlist" is called for the playing source
+ */
+const useContextName = (): string => {
+  const playSource = usePlayerStore(state => state.playSource);
+  return playSource?.type === 'album' ? 'album' : playSource?.type === 'playlist' ? 'playlist' : 'queue';
+};
+
+/**
+ * SleepTimerStatus Component
+ *
+ * A compact label showing the time left on the sleep timer, with a moon icon
+ * unless the surrounding button already has one. Renders nothing while no
+ * timer is running.
+ */
+export const SleepTimerStatus: React.FC<{ showIcon?: boolean; className?: string }> = ({
+  showIcon = true,
+  className = ''
+}) => {
+  const { sleepTimer, sleepTimerRemaining } = usePlayer();
+  const contextName = useContextName();
+
+  if (!sleepTimer) return null;
+
+  return (
+    <span className={`inline-flex items-center space-x-1 text-macchiato-mauve text-xs ${className}`}>
+      {showIcon && <FiMoon size={12} />}
+      <span>{describeTimer(sleepTimer, sleepTimerRemaining, contextName)}</span>
+    </span>
+  );
+};
+
+interface SleepTimerPanelProps {
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * SleepTimerPanel Component
+ *
+ * A floating panel for stopping playback after a while.
+ *
+ * Features:
+ * - Stop after a number of minutes, at the end of the current track, or at
+ *   the end of the current album or playlist
+ * - Playback fades out over the last 30 seconds
+ * - Shows the time left and lets a running timer be extended or cancelled
+ */
+export const SleepTimerPanel: React.FC<SleepTimerPanelProps> = ({
+  onClose,
+  className = 'absolute bottom-full right-0 mb-2'
+}) => {
+  const {
+    sleepTimer,
+    sleepTimerRemaining,
+    startSleepTimer,
+    extendSleepTimer,
+    cancelSleepTimer
+  } = usePlayer();
+  const contextName = useContextName();
+
+  return (
+    <div
+      className={`${className} w-80 bg-macchiato-base/90 backdrop-blur-lg border border-macchiato-overlay0/30 rounded-lg shadow-neumorphic-dark z-50`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Panel header */}
+      <div className="flex items-center justify-between p-4 border-b border-macchiato-overlay0/20">
+        <h3 className="text-macchiato-text font-medium">Sleep timer</h3>
+        <button
+          onClick={onClose}
+          className="text-macchiato-overlay2 hover:text-macchiato-red transition-colors"
+          title="Close sleep timer"
+        >
+          <FiX size={20} />
+        </button>
+      </div>
+
+      {sleepTimer ? (
+        // Running timer with extend and cancel actions
+        <div className="p-4 space-y-4">
+          <div className="text-center">
+            <p className="text-macchiato-subtext0 text-xs uppercase tracking-wider">Stopping in</p>
+            <p className="text-macchiato-text text-3xl font-medium">
+              {describeTimer(sleepTimer, sleepTimerRemaining, contextName)}
+            </p>
+          </div>
+
+          <div className="flex items-center justify-center space-x-2">
+            {sleepTimerRemaining !== null && EXTEND_OPTIONS.map(minutes => (
+              <Button key={minutes} variant="secondary" size="sm" onClick={() => extendSleepTimer(minutes)}>
+                +{minutes} min
+              </Button>
+            ))}
+            <Button variant="ghost" size="sm" onClick={cancelSleepTimer}>
+              Cancel timer
+            </Button>
+          </div>
+        </div>
+      ) : (
+        // Timer options
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {DURATION_OPTIONS.map(minutes => (
+              <button
+                key={minutes}
+                onClick={() => startSleepTimer('duration', minutes)}
+                className="py-2 rounded-lg bg-macchiato-surface0 text-macchiato-text text-sm hover:bg-macchiato-surface1 transition-colors"
+              >
+                {minutes} min
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <button
+              onClick={() => startSleepTimer('endOfTrack')}
+              className="w-full py-2 rounded-lg bg-macchiato-surface0 text-macchiato-text text-sm hover:bg-macchiato-surface1 transition-colors"
+            >
+              End of track
+            </button>
+            <button
+              onClick={() => startSleepTimer('endOfContext')}
+              className="w-full py-2 rounded-lg bg-macchiato-surface0 text-macchiato-text text-sm hover:bg-macchiato-surface1 transition-colors"
+            >
+              End of {contextName}
+            </button>
+          </div>
+
+          <p className="text-macchiato-overlay1 text-xs">
+            Playback fades out over the last {SLEEP_FADE_SECONDS} seconds.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { FiPlay, FiPause, FiPlus, FiHeart, FiMusic, FiClock, FiCalendar, FiTag, FiMoreHorizontal, FiUser, FiDisc } from 'react-icons/fi';
+import { FiPlay, FiPause, FiPlus, FiHeart, FiMusic, FiClock, FiCalendar, FiTag, FiMoreHorizontal, FiUser, FiDisc, FiCornerDownRight } from 'react-icons/fi';
 import { Card } from '../ui/Card';
-import { SongDto } from '../../types';
+import { SongDto, PlaySource } from '../../types';
 import { usePlayer } from '../../hooks/usePlayer';
+import { isSongUnavailable, getResumePosition } from '../../store/playerStore';
 import { useFavorites } from '../../hooks/useFavorites';
 import { formatDuration } from '../../utils/formatters';
 import config from '../../config';
@@ -17,6 +18,7 @@ interface SongCardProps {
   showFavoriteButton?: boolean;
   isFavorite?: boolean;
   compact?: boolean;
+  source?: PlaySource;
 }
 
 /**
@@ -28,10 +30,12 @@ interface SongCardProps {
  * 
  * Features:
  * - Play/pause the song directly from the card
- * - Add to playlist/queue
+ * - Add to playlist/queue, or play next after the current song
  * - Add/remove from favorites
  * - Display song details (artist, album, duration, etc.)
  * - Visual indication for the currently playing song
+ * - Songs whose file is missing are dimmed and labeled as unavailable
+ * - How far a long track was listened to, when it can be resumed
  * - Expandable details section in compact mode
  * 
  * @param {SongCardProps} props - Component properties
@@ -46,9 +50,19 @@ export const SongCard: React.FC<SongCardProps> = ({
   onRemoveFromFavorites,
   showFavoriteButton = false,
   isFavorite: propIsFavorite,
-  compact = false
+  compact = false,
+  source
 }) => {
-  const { currentSong, isPlaying, playSong, togglePlay } = usePlayer();
+  const {
+    currentSong,
+    isPlaying,
+    unavailableSongIds,
+    resumeThresholdMinutes,
+    resumePositions,
+    playSong,
+    togglePlay,
+    playNext
+  } = usePlayer();
   const { isFavorite: checkFavorite, toggleFavorite } = useFavorites();
   
   const [showDetails, setShowDetails] = useState(false);
@@ -56,6 +70,9 @@ export const SongCard: React.FC<SongCardProps> = ({
   const [imageError, setImageError] = useState(false);
   
   const isCurrentSong = currentSong?.id === song.id;
+  const isUnavailable = isSongUnavailable({ unavailableSongIds }, song);
+  // The playing song shows its progress in the player instead
+  const resumePosition = isCurrentSong ? null : getResumePosition({ resumeThresholdMinutes, resumePositions }, song);
   
   const isFavorite = propIsFavorite !== undefined 
     ? propIsFavorite 
@@ -71,7 +88,7 @@ export const SongCard: React.FC<SongCardProps> = ({
     if (isCurrentSong) {
       togglePlay();
     } else {
-      playSong(song);
+      playSong(song, source);
     }
   };
   
@@ -82,6 +99,11 @@ export const SongCard: React.FC<SongCardProps> = ({
     }
   };
   
+  const handlePlayNext = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    playNext(song);
+  };
+  
   const handleFavoriteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     
@@ -115,6 +137,33 @@ export const SongCard: React.FC<SongCardProps> = ({
     return undefined;
   };
   
+  const renderUnavailableBadge = () => (
+    <span
+      className="ml-2 px-1.5 py-0.5 rounded bg-macchiato-red/20 text-macchiato-red text-xs font-normal whitespace-nowrap"
+      title="The file for this song could not be found. Playing it tries again."
+    >
+      Unavailable
+    </span>
+  );
+
+  const renderResumeProgress = () => resumePosition !== null && song.duration > 0 && (
+    <div
+      className="absolute bottom-0 inset-x-0 h-1 bg-black/40"
+      title={`Resume from ${formatDuration(resumePosition)}`}
+      role="progressbar"
+      aria-label="Listened"
+      aria-valuemin={0}
+      aria-valuemax={Math.round(song.duration)}
+      aria-valuenow={Math.round(resumePosition)}
+      aria-valuetext={`Resume from ${formatDuration(resumePosition)}`}
+    >
+      <div
+        className="h-full bg-macchiato-mauve"
+        style={{ width: `${Math.min(100, (resumePosition / song.duration) * 100)}%` }}
+      />
+    </div>
+  );
+
   const handleImageError = () => {
     setImageError(true);
   };
@@ -158,9 +207,10 @@ export const SongCard: React.FC<SongCardProps> = ({
           hoverable
         >
           {/* Left section: Album art and play button */}
-          <div className="flex items-center space-x-3 flex-1 min-w-0">
+          <div className={`flex items-center space-x-3 flex-1 min-w-0 ${isUnavailable ? 'opacity-60' : ''}`}>
             <div className="relative w-12 h-12 rounded-md overflow-hidden shadow-lg flex-shrink-0 bg-macchiato-surface0 aspect-square">
               {renderAlbumArt('small')}
+              {renderResumeProgress()}
               
               {/* Play button overlay on hover */}
               {isHovered && (
@@ -184,6 +234,8 @@ export const SongCard: React.FC<SongCardProps> = ({
                   {song.title}
                 </h3>
                 
+                {isUnavailable && renderUnavailableBadge()}
+                
                 {/* Animation for currently playing song */}
                 {isCurrentSong && isPlaying && (
                   <span className="ml-2 inline-flex items-center">
@@ -213,6 +265,10 @@ export const SongCard: React.FC<SongCardProps> = ({
                 )}
                 
                 <span>{formatDuration(song.duration)}</span>
+                
+                {resumePosition !== null && (
+                  <span className="text-macchiato-mauve whitespace-nowrap">Resume from {formatDuration(resumePosition)}</span>
+                )}
               </div>
             </div>
           </div>
@@ -233,6 +289,17 @@ export const SongCard: React.FC<SongCardProps> = ({
               </button>
             )}
             
+            {!isCurrentSong && (
+              <button
+                onClick={handlePlayNext}
+                className="text-macchiato-overlay1 hover:text-macchiato-mauve transition-colors"
+                title="Play next"
+                aria-label="Play next"
+              >
+                <FiCornerDownRight size={18} />
+              </button>
+            )}
+            
             {onAddToPlaylist && (
               <button
                 onClick={handleAddToPlaylist}
@@ -292,6 +359,7 @@ export const SongCard: React.FC<SongCardProps> = ({
           <div className="relative w-full overflow-hidden bg-gradient-to-br from-macchiato-surface0 to-macchiato-surface1">
             <div className="aspect-square">
               {renderAlbumArt('large')}
+              {renderResumeProgress()}
               
               {/* Play button overlay */}
               <div 
@@ -317,6 +385,7 @@ export const SongCard: React.FC<SongCardProps> = ({
               {/* Song title with playing animation */}
               <h3 className="text-macchiato-text font-medium text-xl flex items-center">
                 {song.title}
+                {isUnavailable && renderUnavailableBadge()}
                 {isCurrentSong && isPlaying && (
                   <span className="ml-2 inline-flex items-center">
                     <span className="animate-pulse-1 inline-block w-1.5 h-4 bg-macchiato-mauve rounded-full mx-0.5"></span>
@@ -381,6 +450,17 @@ export const SongCard: React.FC<SongCardProps> = ({
                 </button>
               )}
               
+              {!isCurrentSong && (
+                <button
+                  onClick={handlePlayNext}
+                  className="text-macchiato-overlay1 hover:text-macchiato-mauve transition-colors"
+                  title="Play next"
+                  aria-label="Play next"
+                >
+                  <FiCornerDownRight size={20} />
+                </button>
+              )}
+              
               {onAddToPlaylist && (
                 <button
                   onClick={handleAddToPlaylist}
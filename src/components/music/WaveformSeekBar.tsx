@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { waveformService } from '../../services/waveform.service';
+import { formatDuration } from '../../utils/formatters';
+import { MACCHIATO } from '../../utils/palette';
+import { AbLoop } from '../../store/playerStore';
+import { SongDto } from '../../types';
+
+interface WaveformSeekBarProps {
+  song: SongDto;
+  progress: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  /** The song's A–B loop, drawn over the waveform */
+  loop?: AbLoop | null;
+  /** Shift-clicking sets loop point A, or point B once only A is set */
+  onSetLoopStart?: (time: number) => void;
+  onSetLoopEnd?: (time: number) => void;
+  height?: number;
+  className?: string;
+}
+
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+const KEYBOARD_SEEK_SECONDS = 5;
+// Shown while the waveform is loading or when the song cannot be decoded
+const PLACEHOLDER_PEAK = 0.15;
+
+/**
+ * Returns the highest peak in the part of the waveform covered by one bar
+ */
+const getBarPeak = (peaks: number[], bar: number, barCount: number): number => {
+  const start = Math.floor((bar * peaks.length) / barCount);
+  const end = Math.max(start + 1, Math.floor(((bar + 1) * peaks.length) / barCount));
+  let peak = 0;
+
+  for (let i = start; i < end && i < peaks.length; i++) {
+    if (peaks[i] > peak) peak = peaks[i];
+  }
+  return peak;
+};
+
+/**
+ * WaveformSeekBar Component
+ *
+ * A progress bar drawn from the song's actual waveform. The part that has
+ * been played is highlighted, and hovering previews the time under the pointer.
+ *
+ * Features:
+ * - Waveform computed from the decoded stream and cached per song
+ * - Played, hovered and unplayed regions in different colors
+ * - Click or tap to seek, with a time preview while hovering
+ * - Keyboard seeking with the arrow, Home and End keys
+ * - A–B loop region, with shift-click to set its points
+ * - Flat placeholder bars while the waveform is loading
+ */
+export const WaveformSeekBar: React.FC<WaveformSeekBarProps> = ({
+  song,
+  progress,
+  duration,
+  onSeek,
+  loop = null,
+  onSetLoopStart,
+  onSetLoopEnd,
+  height = 64,
+  className = ''
+}) => {
+  const songId = song.id;
+  // The length stored with the song, as the playing duration still belongs to the previous song while a new one loads
+  const songDuration = song.duration;
+  const [peaks, setPeaks] = useState<number[] | null>(
+    songId !== undefined ? waveformService.getCachedPeaks(songId) : null
+  );
+  const [width, setWidth] = useState(0);
+  const [hoverX, setHoverX] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  /**
+   * Load the waveform whenever the song changes
+   */
+  useEffect(() => {
+    if (songId === undefined) {
+      setPeaks(null);
+      return;
+    }
+
+    let cancelled = false;
+    setPeaks(waveformService.getCachedPeaks(songId));
+
+    waveformService.getPeaks(songId, songDuration).then(result => {
+      if (!cancelled) {
+        setPeaks(result);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [songId, songDuration]);
+
+  /**
+   * Keep the canvas as wide as its container
+   */
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setWidth(container.clientWidth);
+
+    if (typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(entries[0].contentRect.width);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  /**
+   * Draw the waveform bars, colored by played, hovered and unplayed regions
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    const barCount = Math.max(1, Math.floor(width / (BAR_WIDTH + BAR_GAP)));
+    const playedX = duration > 0 ? (progress / duration) * width : 0;
+
+    for (let bar = 0; bar < barCount; bar++) {
+      const x = bar * (BAR_WIDTH + BAR_GAP);
+      const peak = peaks ? getBarPeak(peaks, bar, barCount) : PLACEHOLDER_PEAK;
+      const barHeight = Math.max(2, peak * height);
+
+      if (x < playedX) {
+        context.fillStyle = MACCHIATO.mauve;
+      } else if (hoverX !== null && x < hoverX) {
+        context.fillStyle = MACCHIATO.overlay0;
+      } else {
+        context.fillStyle = MACCHIATO.surface1;
+      }
+
+      context.fillRect(x, (height - barHeight) / 2, BAR_WIDTH, barHeight);
+    }
+  }, [peaks, progress, duration, hoverX, width, height]);
+
+  const getTimeAt = (x: number): number => {
+    if (width === 0 || duration <= 0) return 0;
+    return Math.max(0, Math.min(duration, (x / width) * duration));
+  };
+
+  const getPointerX = (e: React.MouseEvent): number => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(rect.width, e.clientX - rect.left));
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (duration <= 0) return;
+
+    const time = getTimeAt(getPointerX(e));
+
+    if (e.shiftKey && onSetLoopStart && onSetLoopEnd) {
+      if (loop && loop.end === null && time > loop.start) {
+        onSetLoopEnd(time);
+      } else {
+        onSetLoopStart(time);
+      }
+      return;
+    }
+
+    onSeek(time);
+  };
+
+  const getLoopX = (time: number): number => (duration > 0 ? Math.min(1, time / duration) * width : 0);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    let time: number | null = null;
+
+    switch (e.key) {
+      case 'ArrowRight':
+        time = Math.min(duration, progress + KEYBOARD_SEEK_SECONDS);
+        break;
+      case 'ArrowLeft':
+        time = Math.max(0, progress - KEYBOARD_SEEK_SECONDS);
+        break;
+      case 'Home':
+        time = 0;
+        break;
+      case 'End':
+        time = duration;
+        break;
+    }
+
+    if (time !== null) {
+      // Handled here, so the global seek shortcuts do not seek a second time
+      e.preventDefault();
+      onSeek(time);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-macchiato-mauve/50 rounded ${className}`}
+      style={{ height }}
+      onClick={handleClick}
+      onMouseMove={(e) => setHoverX(getPointerX(e))}
+      onMouseLeave={() => setHoverX(null)}
+      onKeyDown={handleKeyDown}
+      role="slider"
+      tabIndex={0}
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(progress)}
+      aria-valuetext={`${formatDuration(progress)} of ${formatDuration(duration)}`}
+    >
+      <canvas ref={canvasRef} className="w-full h-full block" />
+
+      {/* A–B loop region and its points */}
+      {loop && duration > 0 && (
+        <>
+          {loop.end !== null && (
+            <div
+              className="absolute inset-y-0 bg-macchiato-mauve/15 border-y border-macchiato-mauve/40 pointer-events-none"
+              style={{ left: getLoopX(loop.start), width: getLoopX(loop.end) - getLoopX(loop.start) }}
+            />
+          )}
+          <div
+            className="absolute inset-y-0 w-px bg-macchiato-mauve pointer-events-none"
+            style={{ left: getLoopX(loop.start) }}
+          >
+            <span className="absolute top-full mt-0.5 -translate-x-1/2 text-[10px] font-semibold text-macchiato-mauve">A</span>
+          </div>
+          {loop.end !== null && (
+            <div
+              className="absolute inset-y-0 w-px bg-macchiato-mauve pointer-events-none"
+              style={{ left: getLoopX(loop.end) }}
+            >
+              <span className="absolute top-full mt-0.5 -translate-x-1/2 text-[10px] font-semibold text-macchiato-mauve">B</span>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Time preview under the pointer */}
+      {hoverX !== null && duration > 0 && (
+        <div
+          className="absolute bottom-full mb-1 -translate-x-1/2 px-2 py-0.5 rounded bg-macchiato-surface0 text-macchiato-text text-xs pointer-events-none whitespace-nowrap"
+          style={{ left: hoverX }}
+        >
+          {formatDuration(getTimeAt(hoverX))}
+        </div>
+      )}
+    </div>
+  );
+};
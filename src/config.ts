@@ -1,5 +1,9 @@
 const config = {
     API_BASE_URL: import.meta.env.VITE_API_BASE_URL,
+    // Endpoint under the API that signs stream URLs; files are streamed unsigned when it is not set
+    STREAM_SIGNING_PATH: import.meta.env.VITE_STREAM_SIGNING_PATH,
+    // Endpoint under the API that receives playback events in batches; events are not sent when it is not set
+    PLAYBACK_EVENTS_PATH: import.meta.env.VITE_PLAYBACK_EVENTS_PATH,
 };
 
 export default config;
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * A–B Loop Hook
+ *
+ * Repeats the current song's A–B loop. It is mounted once in the main layout.
+ * It handles:
+ * - Jumping back to point A whenever playback reaches point B
+ * - Letting the user seek out of the loop, which then no longer holds them
+ *   until playback enters it again
+ * - Leaving the looping to the tab that plays when several tabs are open
+ *
+ * A loop whose B is the very end of the song is handled by the playback
+ * engine when the song ends.
+ */
+
+import { useEffect } from 'react';
+import { usePlayerStore, getActiveLoop } from '../store/playerStore';
+import { playbackEventsService } from '../services/playbackEvents.service';
+
+// Larger steps are seeks rather than playback moving on
+const MAX_PLAYBACK_STEP_SECONDS = 2;
+
+export const useAbLoop = () => {
+  useEffect(() => {
+    return usePlayerStore.subscribe((state, prev) => {
+      if (state.isRemoteControl || state.progress === prev.progress) return;
+      if (state.currentSong?.id !== prev.currentSong?.id) return;
+
+      const loop = getActiveLoop(state);
+      if (!loop) return;
+
+      const step = state.progress - prev.progress;
+      const crossedEnd = prev.progress < loop.end && state.progress >= loop.end;
+
+      if (crossedEnd && step > 0 && step < MAX_PLAYBACK_STEP_SECONDS) {
+        playbackEventsService.reportLoopWrap();
+        state.setProgress(loop.start);
+      }
+    });
+  }, []);
+};
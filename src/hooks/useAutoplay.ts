@@ -0,0 +1,73 @@
+/**
+ * Autoplay Hook
+ *
+ * Keeps the music going with similar songs once the queue runs out. It is
+ * mounted once in the main layout. It handles:
+ * - Fetching suggestions while the last queued song plays, so the first one
+ *   can be preloaded and starts without a gap
+ * - Basing them on the current song and the songs played just before it
+ * - Leaving out recently played songs, missing songs and songs that played
+ *   this session
+ * - Leaving the fetching to the tab that plays when several tabs are open
+ */
+
+import { useEffect, useRef } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import { useAuthStore } from '../store/authStore';
+import { useHistoryStore } from '../store/historyStore';
+import { radioService } from '../services/radio.service';
+import { SongDto } from '../types';
+
+const RADIO_BATCH_SIZE = 10;
+// Songs from the listening history that are not suggested again
+const RECENTLY_PLAYED_EXCLUDED = 50;
+// The current song and the songs played right before it shape the suggestions
+const SEED_SONG_COUNT = 3;
+
+export const useAutoplay = () => {
+  const userId = useAuthStore(state => state.user?.id ?? null);
+  const autoplay = usePlayerStore(state => state.autoplay);
+  const currentSong = usePlayerStore(state => state.currentSong);
+  const repeatMode = usePlayerStore(state => state.repeatMode);
+  const isRemoteControl = usePlayerStore(state => state.isRemoteControl);
+  const isQueueEmpty = usePlayerStore(
+    state => state.nextUp.length === 0 && state.queue.length === 0 && state.autoplayQueue.length === 0
+  );
+  // A song nothing could be found for is not asked about again
+  const exhaustedSongIdRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!autoplay || !currentSong || isRemoteControl || repeatMode === 'all' || !isQueueEmpty) return;
+    if (currentSong.id !== undefined && exhaustedSongIdRef.current === currentSong.id) return;
+
+    let cancelled = false;
+    const { backStack, unavailableSongIds } = usePlayerStore.getState();
+    const playedSongs = backStack.map(track => track.song);
+
+    const seedSongs = [currentSong, ...playedSongs.slice(-(SEED_SONG_COUNT - 1)).reverse()];
+    const excludeIds = new Set<number>(Object.keys(unavailableSongIds).map(Number));
+    const excludedSongs: SongDto[] = [
+      currentSong,
+      ...playedSongs,
+      ...useHistoryStore.getState().getRecentSongs(RECENTLY_PLAYED_EXCLUDED)
+    ];
+    excludedSongs.forEach(song => {
+      if (song.id !== undefined) excludeIds.add(song.id);
+    });
+
+    radioService.getSimilarSongs({ songs: seedSongs, excludeIds, userId, limit: RADIO_BATCH_SIZE })
+      .then(songs => {
+        if (cancelled) return;
+
+        if (songs.length === 0) {
+          exhaustedSongIdRef.current = currentSong.id ?? null;
+          return;
+        }
+        usePlayerStore.getState().addAutoplaySongs(songs);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [autoplay, currentSong, repeatMode, isRemoteControl, isQueueEmpty, userId]);
+};
@@ -0,0 +1,29 @@
+/**
+ * Equalizer Hook
+ *
+ * Applies the equalizer settings to the audio engine. It is mounted once in
+ * the main layout. It handles:
+ * - Loading the current user's equalizer settings
+ * - Routing playback through the equalizer only while it is on and not flat
+ */
+
+import { useEffect } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { useEqualizerStore, isFlat } from '../store/equalizerStore';
+import { audioEngineService } from '../services/audioEngine.service';
+
+export const useEqualizer = () => {
+  const userId = useAuthStore(state => state.user?.id ?? null);
+  const { isEnabled, gains, loadSettings } = useEqualizerStore();
+
+  /**
+   * Settings are saved per user, so reload them whenever the user changes
+   */
+  useEffect(() => {
+    loadSettings(userId);
+  }, [userId, loadSettings]);
+
+  useEffect(() => {
+    audioEngineService.setEqualizer(isEnabled && !isFlat(gains) ? gains : null);
+  }, [isEnabled, gains]);
+};
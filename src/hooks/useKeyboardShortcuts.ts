@@ -0,0 +1,116 @@
+/**
+ * Keyboard Shortcuts Hook
+ *
+ * Listens for app-wide keyboard shortcuts and runs the matching player or UI
+ * action. It is mounted once in the main layout. It handles:
+ * - Loading the current user's key bindings
+ * - Ignoring key presses while the user is typing in a form field
+ * - Dispatching shortcut actions to the player store
+ */
+
+import { useEffect } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import { useAuthStore } from '../store/authStore';
+import { useShortcutStore, ShortcutAction } from '../store/shortcutStore';
+import { NAVBAR_SEARCH_ID } from '../components/layout/Navbar';
+
+const SEEK_STEP_SECONDS = 5;
+const VOLUME_STEP = 0.05;
+
+/**
+ * Checks whether a key event comes from an element the user types into
+ */
+const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+const runAction = (action: ShortcutAction) => {
+  const player = usePlayerStore.getState();
+
+  switch (action) {
+    case 'togglePlay':
+      player.togglePlay();
+      break;
+    case 'seekForward':
+      player.setProgress(Math.min(player.progress + SEEK_STEP_SECONDS, player.duration || 0));
+      break;
+    case 'seekBackward':
+      player.setProgress(Math.max(player.progress - SEEK_STEP_SECONDS, 0));
+      break;
+    case 'volumeUp':
+      player.setVolume(player.volume + VOLUME_STEP);
+      break;
+    case 'volumeDown':
+      player.setVolume(player.volume - VOLUME_STEP);
+      break;
+    case 'toggleMute':
+      player.toggleMute();
+      break;
+    case 'next':
+      player.next();
+      break;
+    case 'previous':
+      player.previous();
+      break;
+    case 'setLoopStart':
+      player.setLoopStart();
+      break;
+    case 'setLoopEnd':
+      player.setLoopEnd();
+      break;
+    case 'clearLoop':
+      player.clearLoop();
+      break;
+    case 'toggleFullscreen':
+      if (player.currentSong) {
+        player.toggleFullscreen();
+      }
+      break;
+    case 'toggleQueue':
+      player.toggleQueueVisibility();
+      break;
+    case 'focusSearch':
+      document.getElementById(NAVBAR_SEARCH_ID)?.focus();
+      break;
+    case 'showHelp':
+      useShortcutStore.getState().toggleHelp();
+      break;
+  }
+};
+
+export const useKeyboardShortcuts = () => {
+  const userId = useAuthStore(state => state.user?.id ?? null);
+  const loadBindings = useShortcutStore(state => state.loadBindings);
+
+  /**
+   * Bindings are saved per user, so reload them whenever the user changes
+   */
+  useEffect(() => {
+    loadBindings(userId);
+  }, [userId, loadBindings]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const shortcuts = useShortcutStore.getState();
+      if (shortcuts.capturingAction || isTypingTarget(event.target)) return;
+
+      if (event.key === 'Escape' && shortcuts.isHelpOpen) {
+        shortcuts.setHelpOpen(false);
+        return;
+      }
+
+      const action = shortcuts.getActionForKey(event.key);
+      if (!action) return;
+
+      event.preventDefault();
+      runAction(action);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
@@ -0,0 +1,73 @@
+/**
+ * Listening History Tracker Hook
+ *
+ * Watches playback and logs a play to the listening history once the current
+ * song has actually been listened to past the play threshold. It is mounted
+ * once in the main layout. It handles:
+ * - Loading the current user's history
+ * - Counting listened time, so seeking ahead does not count as listening
+ * - Logging each play of a song once, including repeats
+ * - Leaving the logging to the tab that plays when several tabs are open
+ */
+
+import { useEffect } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import { useAuthStore } from '../store/authStore';
+import { useHistoryStore, getPlayThreshold } from '../store/historyStore';
+import { SongDto } from '../types';
+
+/**
+ * Progress jumps larger than this are treated as seeks rather than listening
+ */
+const MAX_LISTEN_STEP_SECONDS = 2;
+
+export const useListeningHistory = () => {
+  const userId = useAuthStore(state => state.user?.id ?? null);
+  const loadHistory = useHistoryStore(state => state.loadHistory);
+
+  /**
+   * History is saved per user, so reload it whenever the user changes
+   */
+  useEffect(() => {
+    loadHistory(userId);
+  }, [userId, loadHistory]);
+
+  useEffect(() => {
+    let trackedSong: SongDto | null = null;
+    let lastProgress = 0;
+    let listenedSeconds = 0;
+    let isLogged = false;
+
+    const unsubscribe = usePlayerStore.subscribe(state => {
+      const { currentSong, progress, duration, currentSource, isRemoteControl } = state;
+
+      if (currentSong !== trackedSong) {
+        trackedSong = currentSong;
+        lastProgress = progress;
+        listenedSeconds = 0;
+        isLogged = false;
+        return;
+      }
+
+      if (!currentSong || isRemoteControl) return;
+
+      const step = progress - lastProgress;
+
+      // The song started over (repeat one or "previous" restart), so it is a new play
+      if (step < 0 && progress < 1) {
+        listenedSeconds = 0;
+        isLogged = false;
+      } else if (step > 0 && step <= MAX_LISTEN_STEP_SECONDS) {
+        listenedSeconds += step;
+      }
+      lastProgress = progress;
+
+      if (!isLogged && listenedSeconds >= getPlayThreshold(duration || currentSong.duration)) {
+        isLogged = true;
+        useHistoryStore.getState().recordPlay(currentSong, currentSource);
+      }
+    });
+
+    return unsubscribe;
+  }, []);
+};
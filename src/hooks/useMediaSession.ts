@@ -0,0 +1,130 @@
+/**
+ * Media Session Hook
+ *
+ * Registers the player with the Media Session API so that hardware media keys,
+ * lock-screen controls and OS now-playing widgets show the current song and
+ * can control playback. Like the playback engine, it is mounted once in the
+ * main layout. It handles:
+ * - Now-playing metadata (title, artist, album, cover art)
+ * - Playback state and position reporting
+ * - Mapping media session actions onto the player store
+ */
+
+import { useEffect } from 'react';
+import { usePlayerStore, getPlaybackRate } from '../store/playerStore';
+import { getImageUrl } from '../utils/formatters';
+
+const DEFAULT_SEEK_OFFSET = 10;
+
+const isMediaSessionSupported = (): boolean => {
+  return typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+};
+
+export const useMediaSession = () => {
+  const {
+    currentSong,
+    isPlaying,
+    progress,
+    duration,
+    play,
+    pause,
+    next,
+    previous,
+    setProgress
+  } = usePlayerStore();
+  const playbackRate = usePlayerStore(state => getPlaybackRate(state, state.currentSong));
+
+  /**
+   * Publish the current song's metadata
+   */
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+
+    if (!currentSong) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: currentSong.title,
+      artist: currentSong.artistName || '',
+      album: currentSong.albumName || '',
+      artwork: currentSong.albumId
+        ? [{ src: getImageUrl(`album${currentSong.albumId}.jpg`), sizes: '512x512', type: 'image/jpeg' }]
+        : []
+    });
+  }, [currentSong]);
+
+  /**
+   * Keep the OS informed about whether playback is running
+   */
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+
+    navigator.mediaSession.playbackState = !currentSong
+      ? 'none'
+      : isPlaying ? 'playing' : 'paused';
+  }, [currentSong, isPlaying]);
+
+  /**
+   * Report the playback position so OS widgets can draw an accurate progress bar
+   */
+  useEffect(() => {
+    if (!isMediaSessionSupported() || !navigator.mediaSession.setPositionState) return;
+    if (!currentSong || !duration || !isFinite(duration)) return;
+
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        position: Math.min(Math.max(progress, 0), duration),
+        playbackRate
+      });
+    } catch {
+      // Some browsers reject position updates while metadata is still loading
+    }
+  }, [currentSong, progress, duration, playbackRate]);
+
+  /**
+   * Map media session actions onto player store actions
+   */
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+
+    const seekBy = (offset: number) => {
+      const { progress: position, duration: length } = usePlayerStore.getState();
+      setProgress(Math.min(Math.max(position + offset, 0), length || 0));
+    };
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => play()],
+      ['pause', () => pause()],
+      ['nexttrack', () => next()],
+      ['previoustrack', () => previous()],
+      ['seekto', (details) => {
+        if (details.seekTime !== undefined) {
+          setProgress(details.seekTime);
+        }
+      }],
+      ['seekforward', (details) => seekBy(details.seekOffset || DEFAULT_SEEK_OFFSET)],
+      ['seekbackward', (details) => seekBy(-(details.seekOffset || DEFAULT_SEEK_OFFSET))]
+    ];
+
+    handlers.forEach(([action, handler]) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // The browser does not support this action
+      }
+    });
+
+    return () => {
+      handlers.forEach(([action]) => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // The browser does not support this action
+        }
+      });
+    };
+  }, [play, pause, next, previous, setProgress]);
+};
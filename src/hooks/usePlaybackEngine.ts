@@ -0,0 +1,528 @@
+/**
+ * Playback Engine Hook
+ *
+ * This hook connects the player store to the audio elements managed by the
+ * audio engine. It must be mounted exactly once (in the main layout) so that
+ * every audio event is handled a single time. It handles:
+ * - Song loading, playback control and progression
+ * - Event handling (timeupdate, ended, errors)
+ * - Preloading the song that plays next for gapless transitions
+ * - Crossfading between tracks
+ * - Playback speed
+ * - Stopping for the sleep timer and its fade-out
+ * - Staying silent while another browser tab owns playback
+ * - Recovering from stream failures: retrying network errors, skipping
+ *   missing or broken songs, and telling the user what happened
+ */
+
+import { useEffect, useCallback } from 'react';
+import {
+  usePlayerStore,
+  shouldCrossfade,
+  shouldSleepAfterCurrentTrack,
+  getPlaybackRate,
+  getUpcomingSong,
+  getActiveLoop
+} from '../store/playerStore';
+import { useNotificationStore } from '../store/notificationStore';
+import { streamUrlService } from '../services/streamUrl.service';
+import { audioEngineService } from '../services/audioEngine.service';
+import { playbackEventsService } from '../services/playbackEvents.service';
+import {
+  PlaybackErrorKind,
+  classifyMediaError,
+  classifyPlayRejection,
+  isTransientPlaybackError
+} from '../utils/playbackErrors';
+
+// Network failures are retried after 1, 2 and 4 seconds before giving up
+const MAX_STREAM_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const streamRetry: {
+  songId: number | null;
+  attempts: number;
+  timer: ReturnType<typeof setTimeout> | null;
+} = { songId: null, attempts: 0, timer: null };
+
+const cancelStreamRetry = () => {
+  if (streamRetry.timer) {
+    clearTimeout(streamRetry.timer);
+    streamRetry.timer = null;
+  }
+};
+
+/**
+ * Loads the current song's stream again, continuing from the stored position
+ * once its metadata is available
+ *
+ * The stream URL is resolved afresh, since a signed URL may have expired.
+ */
+const reloadCurrentSong = async (songId: number) => {
+  const { currentSong, isPlaying } = usePlayerStore.getState();
+  if (!currentSong || currentSong.id !== songId) return;
+
+  try {
+    const audio = audioEngineService.getActiveElement();
+    audio.src = await streamUrlService.getStreamUrl(currentSong, true);
+    audioEngineService.setActiveSong(songId);
+    audio.load();
+
+    if (isPlaying) {
+      audio.play().catch(handlePlayRejection);
+    }
+  } catch {
+    recoverFromError('network');
+  }
+};
+
+/**
+ * Responds to a failure of the current song
+ *
+ * Network errors are retried with a growing delay, keeping the position. A
+ * missing song is marked unavailable so queues skip it from now on, and a
+ * song the browser cannot decode is skipped. When autoplay is blocked the
+ * player pauses until the user presses play.
+ */
+const recoverFromError = (kind: PlaybackErrorKind) => {
+  const state = usePlayerStore.getState();
+  const song = state.currentSong;
+  if (!song || state.isRemoteControl) return;
+
+  playbackEventsService.reportError(kind);
+  const { notify } = useNotificationStore.getState();
+
+  if (kind === 'autoplay') {
+    state.pause();
+    notify({
+      type: 'info',
+      message: 'Your browser blocked playback. Press play to start listening.',
+      action: { label: 'Play', onClick: () => usePlayerStore.getState().play() }
+    });
+    return;
+  }
+
+  if (isTransientPlaybackError(kind)) {
+    if (streamRetry.songId !== (song.id ?? null)) {
+      streamRetry.songId = song.id ?? null;
+      streamRetry.attempts = 0;
+    }
+
+    if (song.id !== undefined && streamRetry.attempts < MAX_STREAM_RETRIES) {
+      const songId = song.id;
+      const delay = RETRY_BASE_DELAY_MS * 2 ** streamRetry.attempts;
+      streamRetry.attempts++;
+
+      cancelStreamRetry();
+      streamRetry.timer = setTimeout(() => {
+        streamRetry.timer = null;
+        reloadCurrentSong(songId);
+      }, delay);
+      return;
+    }
+
+    state.pause();
+    notify({
+      type: 'error',
+      message: `Couldn't load "${song.title}". Check your connection.`,
+      action: {
+        label: 'Retry',
+        onClick: () => {
+          // Pressing play loads the failed stream again
+          streamRetry.attempts = 0;
+          usePlayerStore.getState().play();
+        }
+      }
+    }, 0);
+    return;
+  }
+
+  if (kind === 'notFound' && song.id !== undefined) {
+    state.markSongUnavailable(song.id);
+  }
+
+  const hasUpcoming = getUpcomingSong(state) !== undefined;
+  const reason = kind === 'notFound' ? 'is no longer available' : "couldn't be played";
+  notify({
+    type: 'warning',
+    message: `"${song.title}" ${reason}${hasUpcoming ? ' and was skipped' : ''}.`
+  });
+
+  if (hasUpcoming) {
+    state.next();
+  } else {
+    state.pause();
+  }
+};
+
+/**
+ * Handles a rejected play() call; stream failures are left to the error event
+ */
+const handlePlayRejection = (error: unknown) => {
+  const kind = classifyPlayRejection(error);
+  if (kind) {
+    recoverFromError(kind);
+  }
+};
+
+export const usePlaybackEngine = () => {
+  const {
+    currentSong,
+    isPlaying,
+    volume,
+    progress,
+    isPlayerVisible,
+    repeatMode,
+    crossfadeDuration,
+    preservePitch,
+    sleepFadeLevel,
+    isRemoteControl,
+    next,
+    setProgress,
+    setDuration
+  } = usePlayerStore();
+
+  const nextSong = usePlayerStore(getUpcomingSong);
+  const playbackRate = usePlayerStore(state => getPlaybackRate(state, state.currentSong));
+
+  /**
+   * Update progress state based on audio element's current time
+   * This enables UI elements like progress bars to reflect playback position
+   * 
+   * Also starts the crossfade into the next track once the current track
+   * enters its final crossfade window, unless an A–B loop keeps it playing.
+   */
+  const handleTimeUpdate = useCallback((event: Event) => {
+    if (!audioEngineService.isActiveElement(event.currentTarget)) return;
+
+    const audio = event.currentTarget as HTMLAudioElement;
+    setProgress(audio.currentTime);
+
+    const state = usePlayerStore.getState();
+    const upcoming = getUpcomingSong(state);
+    // In real time, so a sped-up track fades for as long as one at normal speed
+    const remaining = (audio.duration - audio.currentTime) / audio.playbackRate;
+    // Short tracks never spend more than half their length fading
+    const fadeWindow = Math.min(crossfadeDuration, audio.duration / 2 / audio.playbackRate);
+
+    if (
+      repeatMode !== 'one' &&
+      !getActiveLoop(state) &&
+      !audio.paused &&
+      remaining > 0 &&
+      remaining <= fadeWindow &&
+      upcoming?.id !== undefined &&
+      !shouldSleepAfterCurrentTrack(state) &&
+      shouldCrossfade(state.currentSong, upcoming, crossfadeDuration) &&
+      audioEngineService.crossfadeToPreloaded(upcoming.id, remaining)
+    ) {
+      playbackEventsService.reportCompleted();
+      next();
+    }
+  }, [setProgress, next, repeatMode, crossfadeDuration]);
+
+  /**
+   * Auto-advance to next track when current track ends
+   *
+   * Playback stops instead when the sleep timer is waiting for this track to
+   * end. In repeat-one mode the current track starts over, and with an A–B
+   * loop whose B is the very end it returns to point A. When the next
+   * track has already been buffered on the standby element, it is started
+   * right away before the store catches up, so there is no load gap.
+   */
+  const handleEnded = useCallback((event: Event) => {
+    if (!audioEngineService.isActiveElement(event.currentTarget)) return;
+
+    const audio = event.currentTarget as HTMLAudioElement;
+    const state = usePlayerStore.getState();
+
+    if (shouldSleepAfterCurrentTrack(state)) {
+      playbackEventsService.reportCompleted();
+      state.pause();
+      state.cancelSleepTimer();
+      return;
+    }
+
+    if (repeatMode === 'one') {
+      playbackEventsService.reportCompleted();
+      audio.currentTime = 0;
+      setProgress(0);
+      audio.play().catch(handlePlayRejection);
+      return;
+    }
+
+    const loop = getActiveLoop(state);
+    if (loop) {
+      playbackEventsService.reportLoopWrap();
+      audio.currentTime = loop.start;
+      setProgress(loop.start);
+      audio.play().catch(handlePlayRejection);
+      return;
+    }
+
+    const upcoming = getUpcomingSong(state);
+    if (upcoming?.id !== undefined) {
+      const promoted = audioEngineService.promotePreloaded(upcoming.id);
+      // A standby element that failed to buffer is loaded again by the next song's load
+      if (promoted && !promoted.error) {
+        promoted.currentTime = 0;
+        promoted.play().catch(handlePlayRejection);
+      }
+    }
+
+    playbackEventsService.reportCompleted();
+    next();
+  }, [next, repeatMode, setProgress]);
+
+  /**
+   * Set the duration state once the audio metadata is loaded
+   * This is necessary for accurate progress bar calculations
+   * 
+   * A position set before the metadata was available (for example a restored
+   * session) is applied here, since the element cannot seek any earlier.
+   */
+  const handleLoadedMetadata = useCallback((event: Event) => {
+    if (!audioEngineService.isActiveElement(event.currentTarget)) return;
+
+    const audio = event.currentTarget as HTMLAudioElement;
+    setDuration(audio.duration);
+
+    const { progress: position } = usePlayerStore.getState();
+    if (position > 0 && position < audio.duration && Math.abs(audio.currentTime - position) > 1) {
+      audio.currentTime = position;
+    }
+  }, [setDuration]);
+
+  /**
+   * Classify a stream failure and recover from it
+   * The song may have changed while the server was asked about it, in which
+   * case the failure no longer matters
+   */
+  const handleError = useCallback(async (event: Event) => {
+    if (!audioEngineService.isActiveElement(event.currentTarget)) return;
+
+    const audio = event.currentTarget as HTMLAudioElement;
+    const src = audio.src;
+    const kind = await classifyMediaError(audio.error, src);
+
+    if (kind && audioEngineService.isActiveElement(audio) && audio.src === src) {
+      recoverFromError(kind);
+    }
+  }, []);
+
+  /**
+   * A song that plays is clearly available, so any earlier failure is forgotten
+   */
+  const handlePlaying = useCallback((event: Event) => {
+    if (!audioEngineService.isActiveElement(event.currentTarget)) return;
+
+    const { currentSong: song, markSongAvailable } = usePlayerStore.getState();
+    streamRetry.attempts = 0;
+    if (song?.id !== undefined) {
+      markSongAvailable(song.id);
+    }
+  }, []);
+
+  useEffect(() => {
+    const elements = audioEngineService.getElements();
+
+    elements.forEach(audio => {
+      audio.addEventListener('timeupdate', handleTimeUpdate);
+      audio.addEventListener('ended', handleEnded);
+      audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+      audio.addEventListener('error', handleError);
+      audio.addEventListener('playing', handlePlaying);
+    });
+
+    return () => {
+      elements.forEach(audio => {
+        audio.removeEventListener('timeupdate', handleTimeUpdate);
+        audio.removeEventListener('ended', handleEnded);
+        audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
+        audio.removeEventListener('error', handleError);
+        audio.removeEventListener('playing', handlePlaying);
+      });
+    };
+  }, [handleTimeUpdate, handleEnded, handleLoadedMetadata, handleError, handlePlaying]);
+
+  /**
+   * A retry scheduled for the previous song is dropped when the song changes
+   */
+  useEffect(() => {
+    cancelStreamRetry();
+  }, [currentSong]);
+
+  useEffect(() => {
+    const loadSong = async () => {
+      if (!currentSong || isRemoteControl) return;
+
+      if (currentSong.id !== undefined && audioEngineService.getPreloadedSongId() === currentSong.id) {
+        const promoted = audioEngineService.promotePreloaded(currentSong.id);
+        if (promoted && !promoted.error) {
+          promoted.currentTime = 0;
+          if (isPlaying) {
+            promoted.play().catch(handlePlayRejection);
+          }
+          return;
+        }
+      }
+
+      const audio = audioEngineService.getActiveElement();
+
+      // Compared by song rather than URL, since a song's signed URL changes when it is refreshed.
+      // An element that failed keeps its source, so it is loaded again below.
+      if (audio.src && audioEngineService.getActiveSongId() === currentSong.id && !audio.error) {
+        if (isPlaying && audio.paused) {
+          audio.play().catch(handlePlayRejection);
+        }
+        return;
+      }
+
+      try {
+        const songUrl = await streamUrlService.getStreamUrl(currentSong);
+
+        audio.pause();
+        audio.currentTime = 0;
+        audio.src = songUrl;
+        audio.preload = "auto";
+        audioEngineService.setActiveSong(currentSong.id ?? null);
+        audio.load();
+
+        if (isPlaying) {
+          const playPromise = audio.play();
+          if (playPromise !== undefined) {
+            playPromise.catch(handlePlayRejection);
+          }
+        }
+      } catch {
+        recoverFromError('network');
+      }
+    };
+
+    loadSong();
+  }, [currentSong, isPlaying, isRemoteControl]);
+
+  useEffect(() => {
+    const handlePlayPause = async () => {
+      if (!currentSong || isRemoteControl) return;
+
+      const audio = audioEngineService.getActiveElement();
+
+      if (isPlaying) {
+        audioEngineService.resume();
+
+        if (audio.paused) {
+          try {
+            if (!audio.src || audioEngineService.getActiveSongId() !== currentSong.id || audio.error) {
+              audio.src = await streamUrlService.getStreamUrl(currentSong);
+              audioEngineService.setActiveSong(currentSong.id ?? null);
+              audio.load();
+            }
+
+            const playPromise = audio.play();
+            if (playPromise !== undefined) {
+              playPromise.catch(handlePlayRejection);
+            }
+          } catch {
+            recoverFromError('network');
+          }
+        }
+      } else {
+        audioEngineService.cancelCrossfade();
+
+        if (!audio.paused) {
+          audio.pause();
+        }
+      }
+    };
+
+    handlePlayPause();
+  }, [isPlaying, currentSong, isRemoteControl]);
+
+  /**
+   * Buffer the song that plays next on the standby element while the current
+   * song plays, so it can be swapped in as soon as the current song ends
+   */
+  useEffect(() => {
+    if (!currentSong || nextSong?.id === undefined || isRemoteControl) {
+      audioEngineService.clearPreload();
+      return;
+    }
+
+    let cancelled = false;
+    const songId = nextSong.id;
+
+    streamUrlService.getStreamUrl(nextSong)
+      .then(url => {
+        if (!cancelled) {
+          audioEngineService.preload(songId, url);
+        }
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSong, nextSong, isRemoteControl]);
+
+  /**
+   * Build the Web Audio graph as soon as crossfading is enabled, so that it
+   * is ready before the first transition needs it
+   */
+  useEffect(() => {
+    if (crossfadeDuration > 0) {
+      audioEngineService.ensureGraph();
+    }
+  }, [crossfadeDuration]);
+
+  /**
+   * Sync the playback speed of the current song with the audio engine
+   */
+  useEffect(() => {
+    audioEngineService.setPlaybackRate(playbackRate, preservePitch);
+  }, [playbackRate, preservePitch, currentSong]);
+
+  /**
+   * Sync volume changes with the audio engine, including the sleep timer fade-out
+   */
+  useEffect(() => {
+    audioEngineService.setVolume(volume * sleepFadeLevel);
+  }, [volume, sleepFadeLevel]);
+
+  /**
+   * Handle manual seeking in the audio track
+   * Only updates if the difference is significant to prevent feedback loops
+   * 
+   * Also runs when playback moves to this tab, so it continues from the
+   * position the previous tab reached.
+   */
+  useEffect(() => {
+    if (isRemoteControl) return;
+
+    const audio = audioEngineService.getActiveElement();
+
+    if (!isNaN(audio.duration)) {
+      const diff = Math.abs(audio.currentTime - progress);
+
+      if (diff > 1) {
+        audio.currentTime = progress;
+      }
+    }
+  }, [progress, isRemoteControl]);
+
+  /**
+   * Silence this tab as soon as another tab takes over playback
+   */
+  useEffect(() => {
+    if (isRemoteControl) {
+      audioEngineService.stop();
+    }
+  }, [isRemoteControl]);
+
+  useEffect(() => {
+    if (!isPlayerVisible) {
+      audioEngineService.stop();
+      audioEngineService.getActiveElement().currentTime = 0;
+    }
+  }, [isPlayerVisible]);
+};
@@ -0,0 +1,45 @@
+/**
+ * Playback Events Hook
+ *
+ * Reports what happens during playback. It is mounted once in the main
+ * layout. It handles:
+ * - Turning player changes into playback events
+ * - Logging every event in development
+ * - Sending events to the API in batches when VITE_PLAYBACK_EVENTS_PATH is set
+ * - Sending what is left when the page is hidden or closed
+ */
+
+import { useEffect } from 'react';
+import config from '../config';
+import { playbackEventsService } from '../services/playbackEvents.service';
+import { createConsoleSink, createHttpSink } from '../services/playbackEventSinks.service';
+
+export const usePlaybackEvents = () => {
+  useEffect(() => {
+    const unregisterSinks: (() => void)[] = [];
+
+    if (import.meta.env.DEV) {
+      unregisterSinks.push(playbackEventsService.registerSink(createConsoleSink()));
+    }
+    if (config.PLAYBACK_EVENTS_PATH) {
+      unregisterSinks.push(playbackEventsService.registerSink(
+        createHttpSink({ endpoint: config.PLAYBACK_EVENTS_PATH })
+      ));
+    }
+
+    playbackEventsService.start();
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        playbackEventsService.flush();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      playbackEventsService.stop();
+      unregisterSinks.forEach(unregister => unregister());
+    };
+  }, []);
+};
@@ -0,0 +1,19 @@
+/**
+ * Player Sync Hook
+ *
+ * Connects this tab to the other open Groovy tabs so only one of them plays
+ * at a time. It is mounted once in the main layout. It handles:
+ * - Joining the other tabs, or owning playback when this is the only tab
+ * - Mirroring the player state of the tab that plays
+ * - Leaving the other tabs when the layout unmounts
+ */
+
+import { useEffect } from 'react';
+import { playerSyncService } from '../services/playerSync.service';
+
+export const usePlayerSync = () => {
+  useEffect(() => {
+    playerSyncService.start();
+    return () => playerSyncService.stop();
+  }, []);
+};
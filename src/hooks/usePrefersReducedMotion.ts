@@ -0,0 +1,32 @@
+/**
+ * Reduced Motion Hook
+ *
+ * Reports whether the user has asked the system to minimize animations, and
+ * updates when that setting changes.
+ */
+
+import { useEffect, useState } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+const getMediaQuery = (): MediaQueryList | null => {
+  return typeof window !== 'undefined' && window.matchMedia ? window.matchMedia(QUERY) : null;
+};
+
+export const usePrefersReducedMotion = (): boolean => {
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(() => getMediaQuery()?.matches ?? false);
+
+  useEffect(() => {
+    const mediaQuery = getMediaQuery();
+    if (!mediaQuery) return;
+
+    const handleChange = (event: MediaQueryListEvent) => {
+      setPrefersReducedMotion(event.matches);
+    };
+
+    mediaQuery.addEventListener('change', handleChange);
+    return () => mediaQuery.removeEventListener('change', handleChange);
+  }, []);
+
+  return prefersReducedMotion;
+};
@@ -0,0 +1,315 @@
+/**
+ * Reorderable List Hook
+ *
+ * Adds drag-and-drop reordering to a list whose items each have a drag
+ * handle. The list only changes once an item is dropped; while dragging,
+ * items are shifted with transforms. It handles:
+ * - Pointer dragging with mouse, pen or touch
+ * - Auto-scrolling the surrounding scroll container near its edges
+ * - A keyboard mode: pick an item up with Space or Enter, move it with the
+ *   arrow keys, drop it with Space or Enter, or cancel with Escape
+ * - Screen reader announcements of the item's position
+ */
+
+import React, { useState, useEffect, useRef, useId, useCallback } from 'react';
+
+interface ReorderableListOptions {
+  itemCount: number;
+  /** Name of the item at an index, used in announcements */
+  getItemLabel: (index: number) => string;
+  onReorder: (fromIndex: number, toIndex: number) => void;
+  /** Element that scrolls the list, auto-scrolled while dragging near its edges */
+  scrollContainerRef?: React.RefObject<HTMLElement | null>;
+}
+
+interface DragState {
+  mode: 'pointer' | 'keyboard';
+  from: number;
+  to: number;
+  /** Distance the dragged item has moved from its place, in pixels */
+  offset: number;
+}
+
+interface ItemLayout {
+  top: number;
+  height: number;
+}
+
+// Distance from the scroll container's edge at which auto-scrolling starts
+const AUTO_SCROLL_EDGE = 48;
+const MAX_AUTO_SCROLL_SPEED = 12;
+
+/**
+ * Moves an item within an array, returning a new array
+ */
+export const moveItem = <T>(items: T[], fromIndex: number, toIndex: number): T[] => {
+  const result = [...items];
+  const [item] = result.splice(fromIndex, 1);
+  result.splice(toIndex, 0, item);
+  return result;
+};
+
+/**
+ * Works out where the dragged item would be dropped from the position of its center
+ */
+const getDropIndex = (layouts: ItemLayout[], from: number, offset: number): number => {
+  const center = layouts[from].top + layouts[from].height / 2 + offset;
+  let to = from;
+
+  layouts.forEach((layout, index) => {
+    const middle = layout.top + layout.height / 2;
+    if (index < from && center < middle) to = Math.min(to, index);
+    if (index > from && center > middle) to = Math.max(to, index);
+  });
+
+  return to;
+};
+
+/**
+ * Returns the offset that places the dragged item exactly at the drop position
+ */
+const getSnappedOffset = (layouts: ItemLayout[], from: number, to: number): number => {
+  if (to > from) {
+    return layouts[to].top + layouts[to].height - (layouts[from].top + layouts[from].height);
+  }
+  return layouts[to].top - layouts[from].top;
+};
+
+export const useReorderableList = ({
+  itemCount,
+  getItemLabel,
+  onReorder,
+  scrollContainerRef
+}: ReorderableListOptions) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const listRef = useRef<HTMLUListElement>(null);
+  const layoutsRef = useRef<ItemLayout[]>([]);
+  const pointerStartRef = useRef(0);
+  const pointerClientYRef = useRef(0);
+  const focusIndexRef = useRef<number | null>(null);
+  const instructionsId = useId();
+
+  const describePosition = (index: number) => `position ${index + 1} of ${itemCount}`;
+
+  /**
+   * Records where every item sits, relative to the top of the list
+   */
+  const measureItems = () => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const listTop = list.getBoundingClientRect().top;
+    layoutsRef.current = Array.from(list.querySelectorAll<HTMLElement>('[data-reorder-item]')).map(item => {
+      const rect = item.getBoundingClientRect();
+      return { top: rect.top - listTop, height: rect.height };
+    });
+  };
+
+  /**
+   * Distance of the pointer from the top of the list, which stays correct
+   * while the container scrolls
+   */
+  const getPointerY = (clientY: number): number => {
+    const listTop = listRef.current?.getBoundingClientRect().top ?? 0;
+    return clientY - listTop;
+  };
+
+  const updatePointerDrag = useCallback((clientY: number) => {
+    setDrag(current => {
+      if (!current || current.mode !== 'pointer') return current;
+
+      const offset = getPointerY(clientY) - pointerStartRef.current;
+      return { ...current, offset, to: getDropIndex(layoutsRef.current, current.from, offset) };
+    });
+  }, []);
+
+  const finishDrag = (commit: boolean) => {
+    if (!drag) return;
+
+    const label = getItemLabel(drag.from);
+    if (commit && drag.to !== drag.from) {
+      onReorder(drag.from, drag.to);
+      setAnnouncement(`${label} dropped at ${describePosition(drag.to)}.`);
+    } else if (commit) {
+      setAnnouncement(`${label} dropped at ${describePosition(drag.from)}.`);
+    } else {
+      setAnnouncement(`Reordering cancelled. ${label} returned to ${describePosition(drag.from)}.`);
+    }
+
+    if (drag.mode === 'keyboard') {
+      focusIndexRef.current = commit ? drag.to : drag.from;
+    }
+    setDrag(null);
+  };
+
+  /**
+   * Keep the focus on the moved item's handle once the list has been reordered
+   */
+  useEffect(() => {
+    if (drag || focusIndexRef.current === null) return;
+
+    const index = focusIndexRef.current;
+    focusIndexRef.current = null;
+    listRef.current?.querySelector<HTMLElement>(`[data-reorder-handle="${index}"]`)?.focus();
+  });
+
+  /**
+   * Scroll the container while a pointer drag is held near its top or bottom edge
+   */
+  useEffect(() => {
+    const container = scrollContainerRef?.current;
+    if (!container || drag?.mode !== 'pointer') return;
+
+    let frameId: number;
+
+    const step = () => {
+      const rect = container.getBoundingClientRect();
+      const clientY = pointerClientYRef.current;
+      let speed = 0;
+
+      if (clientY < rect.top + AUTO_SCROLL_EDGE) {
+        speed = -MAX_AUTO_SCROLL_SPEED * Math.min(1, (rect.top + AUTO_SCROLL_EDGE - clientY) / AUTO_SCROLL_EDGE);
+      } else if (clientY > rect.bottom - AUTO_SCROLL_EDGE) {
+        speed = MAX_AUTO_SCROLL_SPEED * Math.min(1, (clientY - (rect.bottom - AUTO_SCROLL_EDGE)) / AUTO_SCROLL_EDGE);
+      }
+
+      if (speed !== 0) {
+        const before = container.scrollTop;
+        container.scrollTop += speed;
+        if (container.scrollTop !== before) {
+          updatePointerDrag(clientY);
+        }
+      }
+
+      frameId = requestAnimationFrame(step);
+    };
+
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [drag?.mode, scrollContainerRef, updatePointerDrag]);
+
+  const handlePointerDown = (index: number) => (e: React.PointerEvent<HTMLElement>) => {
+    if (e.button !== 0 || drag) return;
+
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    measureItems();
+    pointerStartRef.current = getPointerY(e.clientY);
+    pointerClientYRef.current = e.clientY;
+    setDrag({ mode: 'pointer', from: index, to: index, offset: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (drag?.mode !== 'pointer') return;
+
+    pointerClientYRef.current = e.clientY;
+    updatePointerDrag(e.clientY);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    if (drag?.mode !== 'pointer') return;
+
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    finishDrag(true);
+  };
+
+  const handleKeyDown = (index: number) => (e: React.KeyboardEvent<HTMLElement>) => {
+    if (!drag) {
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault();
+        measureItems();
+        setDrag({ mode: 'keyboard', from: index, to: index, offset: 0 });
+        setAnnouncement(
+          `${getItemLabel(index)} picked up, ${describePosition(index)}. ` +
+          'Use the up and down arrow keys to move it, Space to drop it, or Escape to cancel.'
+        );
+      }
+      return;
+    }
+
+    if (drag.mode !== 'keyboard') return;
+
+    switch (e.key) {
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        e.preventDefault();
+        const to = Math.max(0, Math.min(itemCount - 1, drag.to + (e.key === 'ArrowUp' ? -1 : 1)));
+        if (to !== drag.to) {
+          setDrag({ ...drag, to, offset: getSnappedOffset(layoutsRef.current, drag.from, to) });
+          setAnnouncement(`${getItemLabel(drag.from)} moved to ${describePosition(to)}.`);
+        }
+        break;
+      }
+      case ' ':
+      case 'Enter':
+        e.preventDefault();
+        finishDrag(true);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        finishDrag(false);
+        break;
+    }
+  };
+
+  /**
+   * Props for an item of the list, shifting it out of the way of the dragged item
+   */
+  const getItemProps = (index: number) => {
+    let transform: string | undefined;
+    const isDragged = drag?.from === index;
+
+    if (drag && isDragged) {
+      transform = `translateY(${drag.offset}px)`;
+    } else if (drag) {
+      const draggedHeight = layoutsRef.current[drag.from]?.height ?? 0;
+      if (drag.from < drag.to && index > drag.from && index <= drag.to) {
+        transform = `translateY(${-draggedHeight}px)`;
+      } else if (drag.to < drag.from && index >= drag.to && index < drag.from) {
+        transform = `translateY(${draggedHeight}px)`;
+      }
+    }
+
+    return {
+      'data-reorder-item': index,
+      style: {
+        transform,
+        transition: isDragged && drag?.mode === 'pointer' ? 'none' : 'transform 150ms ease',
+        position: 'relative' as const,
+        zIndex: isDragged ? 10 : undefined
+      }
+    };
+  };
+
+  /**
+   * Props for the drag handle of an item
+   */
+  const getHandleProps = (index: number) => ({
+    'data-reorder-handle': index,
+    'aria-label': `Reorder ${getItemLabel(index)}`,
+    'aria-describedby': instructionsId,
+    'aria-pressed': drag?.from === index,
+    onPointerDown: handlePointerDown(index),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: () => {
+      if (drag?.mode === 'pointer') finishDrag(false);
+    },
+    onKeyDown: handleKeyDown(index),
+    onBlur: () => {
+      if (drag?.mode === 'keyboard') finishDrag(false);
+    },
+    style: { touchAction: 'none' as const }
+  });
+
+  return {
+    listRef,
+    draggedIndex: drag?.from ?? null,
+    announcement,
+    instructionsId,
+    instructions: 'Press Space or Enter to pick up, use the arrow keys to move, and press Space or Enter again to drop.',
+    getItemProps,
+    getHandleProps
+  };
+};
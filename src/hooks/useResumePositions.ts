@@ -0,0 +1,110 @@
+/**
+ * Resume Positions Hook
+ *
+ * Remembers where long tracks such as DJ mixes, live sets and spoken word
+ * were left. It is mounted once in the main layout. It handles:
+ * - Saving the position of a long track while it plays, when it is paused
+ *   and when another song starts
+ * - Forgetting it once the track is finished, while keeping it when the
+ *   track is played again but stopped before it got going
+ * - Offering to resume from the saved position when the track plays again,
+ *   without overwriting that position while the offer is open
+ * - Leaving the saving to the tab that plays when several tabs are open
+ */
+
+import { useEffect } from 'react';
+import { usePlayerStore, isLongTrack, getResumePosition } from '../store/playerStore';
+import { useNotificationStore } from '../store/notificationStore';
+import { formatDuration } from '../utils/formatters';
+import { SongDto } from '../types';
+
+type PlayerStoreState = ReturnType<typeof usePlayerStore.getState>;
+
+// How far playback moves on before the position is saved again
+const SAVE_INTERVAL_SECONDS = 10;
+// Positions this close to the start or the end are not worth resuming
+const MIN_RESUME_SECONDS = 30;
+const FINISHED_MARGIN_SECONDS = 30;
+const RESUME_OFFER_DURATION_MS = 15000;
+
+export const useResumePositions = () => {
+  useEffect(() => {
+    let lastSavedPosition = 0;
+    // The song whose saved position is being offered, which playing from the start must not replace
+    let offeredSongId: number | null = null;
+    let offerTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const closeOffer = () => {
+      offeredSongId = null;
+      if (offerTimer) {
+        clearTimeout(offerTimer);
+        offerTimer = null;
+      }
+    };
+
+    const savePosition = (state: PlayerStoreState, song: SongDto | null, position: number) => {
+      if (song?.id === undefined || song.id === offeredSongId || !isLongTrack(state, song)) return;
+
+      const duration = state.duration > 0 ? state.duration : song.duration;
+      lastSavedPosition = position;
+
+      if (position > duration - FINISHED_MARGIN_SECONDS) {
+        state.clearResumePosition(song.id);
+      } else if (position >= MIN_RESUME_SECONDS) {
+        state.saveResumePosition(song.id, position);
+      }
+      // Closer to the start, an earlier saved position is still the better place to resume
+    };
+
+    const offerResume = (state: PlayerStoreState, song: SongDto) => {
+      const position = getResumePosition(state, song);
+      // Already started there, for example from the song card
+      if (song.id === undefined || position === null || state.progress >= position - 1) return;
+
+      closeOffer();
+      offeredSongId = song.id;
+      offerTimer = setTimeout(closeOffer, RESUME_OFFER_DURATION_MS);
+
+      useNotificationStore.getState().notify({
+        type: 'info',
+        message: `Pick up "${song.title}" where you left off?`,
+        action: {
+          label: `Resume from ${formatDuration(position)}`,
+          onClick: () => {
+            closeOffer();
+            usePlayerStore.getState().playSong(song, undefined, position);
+          }
+        }
+      }, RESUME_OFFER_DURATION_MS);
+    };
+
+    const unsubscribe = usePlayerStore.subscribe((state, prev) => {
+      if (state.isRemoteControl) return;
+
+      const song = state.currentSong;
+
+      if (song?.id !== prev.currentSong?.id) {
+        savePosition(prev, prev.currentSong, prev.progress);
+        closeOffer();
+        lastSavedPosition = state.progress;
+
+        if (song) {
+          offerResume(state, song);
+        }
+        return;
+      }
+
+      const isPausing = prev.isPlaying && !state.isPlaying;
+      const hasMovedOn = Math.abs(state.progress - lastSavedPosition) >= SAVE_INTERVAL_SECONDS;
+
+      if ((state.progress !== prev.progress && hasMovedOn) || isPausing) {
+        savePosition(state, song, state.progress);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      closeOffer();
+    };
+  }, []);
+};
@@ -0,0 +1,54 @@
+/**
+ * Volume Normalization Hook
+ *
+ * Evens out loudness differences between tracks by applying a gain to each
+ * song in the playback graph. It is mounted once in the main layout. It handles:
+ * - Measuring the current song and the one that plays next ahead of playback
+ * - Applying the track or album gain to whichever element plays the song
+ * - Returning every song to its original level when normalization is off
+ */
+
+import { useEffect } from 'react';
+import { usePlayerStore, getUpcomingSong } from '../store/playerStore';
+import { loudnessService } from '../services/loudness.service';
+import { audioEngineService } from '../services/audioEngine.service';
+
+export const useVolumeNormalization = () => {
+  const { currentSong, normalizationMode } = usePlayerStore();
+  const nextSong = usePlayerStore(getUpcomingSong);
+
+  /**
+   * Gains from a previous mode no longer apply once the mode changes
+   */
+  useEffect(() => {
+    audioEngineService.clearTrackGains();
+
+    if (normalizationMode !== 'off') {
+      audioEngineService.ensureGraph();
+      audioEngineService.resume();
+    }
+  }, [normalizationMode]);
+
+  useEffect(() => {
+    if (normalizationMode === 'off') return;
+
+    let cancelled = false;
+
+    [currentSong, nextSong].forEach(song => {
+      if (song?.id === undefined) return;
+      const songId = song.id;
+
+      loudnessService.getGain(song, normalizationMode)
+        .then(gain => {
+          if (!cancelled && gain !== null) {
+            audioEngineService.setTrackGain(songId, gain);
+          }
+        })
+        .catch(() => {});
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSong, nextSong, normalizationMode]);
+};
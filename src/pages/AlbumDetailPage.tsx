@@ -5,7 +5,7 @@ import { SongCard } from '../components/music/SongCard';
 import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
 import { albumService } from '../services/album.service';
-import { AlbumDto, SongDto } from '../types';
+import { AlbumDto, SongDto, PlaySource } from '../types';
 import { usePlayer } from '../hooks/usePlayer';
 import { formatDate } from '../utils/formatters';
 import { getImageUrl } from '../utils/formatters';
@@ -35,6 +35,7 @@ export const AlbumDetailPage: React.FC = () => {
   
   const { playQueue, isPlaying, currentSong, togglePlay, addToQueue } = usePlayer();
   const isCurrentAlbum = album?.songs?.some(song => song.id === currentSong?.id);
+  const albumSource: PlaySource = { type: 'album', id: album?.id, name: album?.name };
   
   useEffect(() => {
     const fetchAlbum = async () => {
@@ -77,7 +78,7 @@ export const AlbumDetailPage: React.FC = () => {
     if (isCurrentAlbum && isPlaying) {
       togglePlay();
     } else {
-      playQueue(album.songs, 0);
+      playQueue(album.songs, 0, albumSource);
     }
   };
   
@@ -176,6 +177,7 @@ export const AlbumDetailPage: React.FC = () => {
                   song={song}
                   showAlbum={false}
                   onAddToPlaylist={handleAddToQueue}
+                  source={albumSource}
                   compact
                 />
               </div>
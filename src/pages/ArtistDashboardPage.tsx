@@ -1,20 +1,22 @@
 import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { FiPlus, FiEdit, FiTrash2, FiUpload, FiDisc, FiMusic, FiPlay, FiChevronDown, FiChevronUp } from 'react-icons/fi';
+import { FiPlus, FiEdit, FiTrash2, FiUpload, FiDisc, FiMusic, FiPlay, FiChevronDown, FiChevronUp, FiAlignLeft } from 'react-icons/fi';
 import { AlbumCard } from '../components/music/AlbumCard';
+import { LyricsEditor } from '../components/music/LyricsEditor';
 import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
 import { albumService } from '../services/album.service';
 import { songService } from '../services/song.service';
 import { useAuth } from '../hooks/useAuth';
-import { AlbumDto } from '../types';
+import { AlbumDto, SongDto } from '../types';
 
 /**
  * Artist Dashboard Page
  * 
  * Provides artists with an overview of their music catalog and statistics.
  * Displays albums, tracks, and basic analytics in a clean, interactive interface.
- * Includes functionality to manage albums and songs with edit/delete options.
+ * Includes functionality to manage albums and songs with edit/delete options,
+ * and to attach lyrics to songs.
  */
 export const ArtistDashboardPage: React.FC = () => {
   const { user } = useAuth();
@@ -23,6 +25,7 @@ export const ArtistDashboardPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [expandedAlbums, setExpandedAlbums] = useState<number[]>([]);
+  const [lyricsSongId, setLyricsSongId] = useState<number | null>(null);
   
   useEffect(() => {
     const fetchArtistAlbums = async () => {
@@ -103,6 +106,13 @@ export const ArtistDashboardPage: React.FC = () => {
     }
   };
 
+  const handleLyricsSaved = (updatedSong: SongDto) => {
+    setAlbums(albums.map(album => ({
+      ...album,
+      songs: album.songs?.map(song => (song.id === updatedSong.id ? { ...song, lyrics: updatedSong.lyrics } : song))
+    })));
+  };
+
   const toggleAlbumExpand = (albumId: number | undefined) => {
     if (!albumId) return;
     
@@ -277,14 +287,33 @@ export const ArtistDashboardPage: React.FC = () => {
                     ) : (
                       <ul>
                         {album.songs?.map((song) => (
-                          <li key={song.id} className="flex justify-between items-center mb-2">
-                            <span className="text-macchiato-text">{song.title}</span>
-                            <button 
-                              className="text-macchiato-red hover:text-macchiato-red/80"
-                              onClick={() => song.id && album.id && handleDeleteSong(song.id, album.id)}
-                            >
-                              Delete
-                            </button>
+                          <li key={song.id} className="mb-2">
+                            <div className="flex justify-between items-center">
+                              <span className="text-macchiato-text">{song.title}</span>
+                              <div className="flex items-center space-x-3">
+                                <button 
+                                  className="flex items-center text-macchiato-subtext0 hover:text-macchiato-mauve"
+                                  onClick={() => song.id && setLyricsSongId(lyricsSongId === song.id ? null : song.id)}
+                                >
+                                  <FiAlignLeft className="mr-1" size={14} />
+                                  Lyrics
+                                </button>
+                                <button 
+                                  className="text-macchiato-red hover:text-macchiato-red/80"
+                                  onClick={() => song.id && album.id && handleDeleteSong(song.id, album.id)}
+                                >
+                                  Delete
+                                </button>
+                              </div>
+                            </div>
+                            
+                            {song.id !== undefined && lyricsSongId === song.id && (
+                              <LyricsEditor
+                                song={song}
+                                onClose={() => setLyricsSongId(null)}
+                                onSaved={handleLyricsSaved}
+                              />
+                            )}
                           </li>
                         ))}
                       </ul>
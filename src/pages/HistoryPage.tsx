@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FiPlay, FiPause, FiMusic, FiX } from 'react-icons/fi';
+import { Button } from '../components/ui/Button';
+import { usePlayer } from '../hooks/usePlayer';
+import { useHistoryStore } from '../store/historyStore';
+import { formatDuration, getImageUrl } from '../utils/formatters';
+import { ListeningHistoryEntry, PlaySource } from '../types';
+
+/**
+ * Returns a readable label for the day an entry was played on
+ */
+const getDayLabel = (date: Date): string => {
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+
+  return date.toLocaleDateString(undefined, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+};
+
+/**
+ * Describes where a play was started from, with a link when the source has a page
+ */
+const renderSource = (source: PlaySource) => {
+  switch (source.type) {
+    case 'album':
+      return source.id ? (
+        <Link to={`/albums/${source.id}`} className="hover:text-macchiato-mauve">
+          Album · {source.name || 'Unknown album'}
+        </Link>
+      ) : `Album · ${source.name || 'Unknown album'}`;
+    case 'playlist':
+      return source.id ? (
+        <Link to={`/playlists/${source.id}`} className="hover:text-macchiato-mauve">
+          Playlist · {source.name || 'Unknown playlist'}
+        </Link>
+      ) : `Playlist · ${source.name || 'Unknown playlist'}`;
+    case 'search':
+      return source.name ? `Search · "${source.name}"` : 'Search';
+    case 'queue':
+      return 'Queue';
+    case 'history':
+      return 'Recently played';
+    case 'autoplay':
+      return 'Autoplay';
+    default:
+      return null;
+  }
+};
+
+/**
+ * History Page
+ *
+ * Displays the user's recently played songs grouped by day, newest first.
+ * Each entry shows when and from where it was played and can be replayed
+ * with a single click. Entries can be removed one by one or all at once.
+ */
+export const HistoryPage: React.FC = () => {
+  const { entries, removeEntry, clearHistory } = useHistoryStore();
+  const { currentSong, isPlaying, playSong, togglePlay } = usePlayer();
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+
+  const groupedEntries = useMemo(() => {
+    const groups: { label: string; entries: ListeningHistoryEntry[] }[] = [];
+
+    entries.forEach(entry => {
+      const label = getDayLabel(new Date(entry.playedAt));
+      const lastGroup = groups[groups.length - 1];
+
+      if (lastGroup && lastGroup.label === label) {
+        lastGroup.entries.push(entry);
+      } else {
+        groups.push({ label, entries: [entry] });
+      }
+    });
+
+    return groups;
+  }, [entries]);
+
+  const handleReplay = (entry: ListeningHistoryEntry) => {
+    if (currentSong?.id === entry.song.id) {
+      togglePlay();
+    } else {
+      playSong(entry.song, { type: 'history' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-4xl font-bold text-macchiato-text">Recently Played</h1>
+          {entries.length > 0 && (
+            <p className="text-macchiato-subtext0">{entries.length} {entries.length === 1 ? 'play' : 'plays'}</p>
+          )}
+        </div>
+
+        {entries.length > 0 && (
+          showClearConfirm ? (
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="danger"
+                onClick={() => {
+                  clearHistory();
+                  setShowClearConfirm(false);
+                }}
+              >
+                Clear history
+              </Button>
+              <Button variant="ghost" onClick={() => setShowClearConfirm(false)}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <Button variant="secondary" onClick={() => setShowClearConfirm(true)}>
+              Clear history
+            </Button>
+          )
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-macchiato-subtext0 mb-4">Songs you listen to will show up here.</p>
+          <Button variant="primary" to="/browse">Browse Music</Button>
+        </div>
+      ) : (
+        groupedEntries.map(group => (
+          <section key={group.label}>
+            <h2 className="text-macchiato-subtext0 text-sm uppercase tracking-wider mb-2">{group.label}</h2>
+
+            <ul className="bg-macchiato-mantle/50 rounded-lg overflow-hidden">
+              {group.entries.map(entry => {
+                const isCurrent = currentSong?.id === entry.song.id;
+
+                return (
+                  <li
+                    key={entry.id}
+                    className="flex items-center px-4 py-2 border-b border-macchiato-overlay0/10 last:border-b-0 hover:bg-macchiato-surface0/50 transition-colors group"
+                  >
+                    {/* Replay button over the album artwork */}
+                    <button
+                      onClick={() => handleReplay(entry)}
+                      className="relative w-10 h-10 bg-macchiato-surface0 rounded-md overflow-hidden flex-shrink-0 flex items-center justify-center"
+                      title={isCurrent && isPlaying ? 'Pause' : 'Play again'}
+                      aria-label={isCurrent && isPlaying ? `Pause ${entry.song.title}` : `Play ${entry.song.title} again`}
+                    >
+                      {entry.song.albumId ? (
+                        <img
+                          src={getImageUrl(`album${entry.song.albumId}.jpg`)}
+                          alt={entry.song.albumName || 'Album cover'}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <FiMusic className="text-macchiato-mauve" size={16} />
+                      )}
+                      <span className={`absolute inset-0 bg-black/50 flex items-center justify-center text-white transition-opacity ${isCurrent ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                        {isCurrent && isPlaying ? <FiPause size={16} /> : <FiPlay size={16} />}
+                      </span>
+                    </button>
+
+                    {/* Song title, artist and source */}
+                    <div className="min-w-0 flex-1 mx-3">
+                      <p className={`text-sm truncate ${isCurrent ? 'text-macchiato-mauve' : 'text-macchiato-text'}`}>
+                        {entry.song.title}
+                      </p>
+                      <p className="text-macchiato-subtext0 text-xs truncate">
+                        {entry.song.artistName}
+                        {renderSource(entry.source) && (
+                          <>
+                            <span className="mx-1">•</span>
+                            {renderSource(entry.source)}
+                          </>
+                        )}
+                      </p>
+                    </div>
+
+                    {/* Time played and song duration */}
+                    <span className="text-macchiato-subtext1 text-xs mx-2 hidden sm:inline">
+                      {new Date(entry.playedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    <span className="text-macchiato-subtext1 text-xs mx-2">
+                      {formatDuration(entry.song.duration)}
+                    </span>
+
+                    {/* Remove entry button */}
+                    <button
+                      onClick={() => removeEntry(entry.id)}
+                      className="text-macchiato-overlay1 hover:text-macchiato-red transition-colors ml-2"
+                      title="Remove from history"
+                    >
+                      <FiX size={16} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))
+      )}
+    </div>
+  );
+};
@@ -7,18 +7,21 @@ import { albumService } from '../services/album.service';
 import { songService } from '../services/song.service';
 import { useAuth } from '../hooks/useAuth';
 import { usePlayer } from '../hooks/usePlayer';
+import { useHistoryStore } from '../store/historyStore';
 import { AlbumDto, SongDto } from '../types';
 
 /**
  * Home Page
  * 
- * Main landing page displaying featured albums and popular songs.
+ * Main landing page displaying recently played songs, featured albums and popular songs.
  * Handles authentication state and session management.
  * Shows loading states and error handling for data fetching.
  */
 export const HomePage: React.FC = () => {
   const { isAuthenticated, user, refreshAuth, verifyToken } = useAuth();
   const { addToQueue } = usePlayer();
+  const { getRecentSongs } = useHistoryStore();
+  const recentSongs = getRecentSongs(4);
 
   const [featuredAlbums, setFeaturedAlbums] = useState<AlbumDto[]>([]);
   const [popularSongs, setPopularSongs] = useState<SongDto[]>([]);
@@ -126,6 +129,30 @@ export const HomePage: React.FC = () => {
   
   return (
     <div className="space-y-10">
+      {/* Recently Played Section, only shown once something has been played */}
+      {recentSongs.length > 0 && (
+        <section>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-bold text-macchiato-text">Jump Back In</h2>
+            <Link to="/history" className="text-macchiato-mauve hover:text-macchiato-pink">
+              View All
+            </Link>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 xl:grid-cols-4 gap-6">
+            {recentSongs.map((song) => (
+              <SongCard
+                key={song.id}
+                song={song}
+                source={{ type: 'history' }}
+                onAddToPlaylist={handleAddToQueue}
+                showFavoriteButton
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Featured Albums Section */}
       {featuredAlbums.length > 0 ? (
         <section>
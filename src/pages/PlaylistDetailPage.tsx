@@ -32,7 +32,7 @@ export const PlaylistDetailPage: React.FC = () => {
   const [searchResults, setSearchResults] = useState<SongDto[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   
-  const { playQueue, isPlaying, currentSong, togglePlay } = usePlayer();
+  const { playPlaylist, isPlaying, currentSong, togglePlay } = usePlayer();
   const { user } = useAuth();
   const navigate = useNavigate();
   
@@ -82,7 +82,7 @@ export const PlaylistDetailPage: React.FC = () => {
     if (isCurrentPlaylist && isPlaying) {
       togglePlay();
     } else {
-      playQueue(playlist.songs, 0);
+      playPlaylist(playlist, 0);
     }
   };
   
@@ -344,6 +344,7 @@ export const PlaylistDetailPage: React.FC = () => {
                 <SongCard 
                   song={song}
                   compact
+                  source={{ type: 'playlist', id: playlist.id, name: playlist.name }}
                 />
                 {isOwner && (
                   <button
@@ -75,6 +75,7 @@ export const SearchPage: React.FC = () => {
           <SongCard 
             key={song.id} 
             song={song}
+            source={{ type: 'search', name: query }}
             onAddToPlaylist={handleAddToQueue}
           />
         ))}
@@ -163,6 +164,7 @@ export const SearchPage: React.FC = () => {
                   <SongCard 
                     key={song.id} 
                     song={song}
+                    source={{ type: 'search', name: query }}
                     onAddToPlaylist={handleAddToQueue}
                   />
                 ))}
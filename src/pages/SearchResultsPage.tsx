@@ -78,6 +78,7 @@ export const SearchResultsPage: React.FC = () => {
           <SongCard 
             key={song.id} 
             song={song}
+            source={{ type: 'search', name: query }}
             onAddToPlaylist={handleAddToQueue}
           />
         ))}
@@ -0,0 +1,119 @@
+import { audioDecoderService } from './audioDecoder.service';
+import { LoudnessMeasurement } from '../utils/loudness';
+import type { AudioAnalysisRequest, AudioAnalysisResponse } from '../workers/audioAnalysis.worker';
+
+/**
+ * Everything measured from one decode of a song
+ */
+export interface SongAnalysis {
+  /** Waveform peaks between 0 and 1 */
+  peaks: number[];
+  loudness: LoudnessMeasurement | null;
+  /** Decoded length in seconds */
+  duration: number;
+}
+
+// Results are kept briefly, so a feature asking shortly after another does not decode again
+const MAX_RECENT_ANALYSES = 20;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (response: AudioAnalysisResponse | null) => void>();
+const pendingAnalyses = new Map<number, Promise<SongAnalysis | null>>();
+const recentAnalyses = new Map<number, SongAnalysis>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/audioAnalysis.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<AudioAnalysisResponse>) => {
+      pendingRequests.get(event.data.id)?.(event.data);
+      pendingRequests.delete(event.data.id);
+    };
+
+    worker.onerror = (event) => {
+      console.error('audioAnalysis: Worker failed', event.message);
+      // Nothing pending will be answered, so a fresh worker is started for the next request
+      pendingRequests.forEach(resolve => resolve(null));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+/**
+ * Hands decoded audio to the worker
+ *
+ * The channel data is copied out of the AudioBuffer and moved to the worker,
+ * so the main thread only pays for the copy, not for the analysis.
+ */
+const analyzeInWorker = (buffer: AudioBuffer): Promise<AudioAnalysisResponse | null> => {
+  const id = nextRequestId++;
+  const channels = Array.from(
+    { length: buffer.numberOfChannels },
+    (_, channel) => buffer.getChannelData(channel).slice()
+  );
+  const request: AudioAnalysisRequest = { id, sampleRate: buffer.sampleRate, channels };
+
+  return new Promise(resolve => {
+    pendingRequests.set(id, resolve);
+    getWorker().postMessage(request, channels.map(samples => samples.buffer));
+  });
+};
+
+const decodeAndAnalyze = async (songId: number, duration: number): Promise<SongAnalysis | null> => {
+  const buffer = await audioDecoderService.decode(songId, duration);
+  if (!buffer) return null;
+
+  const result = await analyzeInWorker(buffer);
+  if (!result) return null;
+
+  return { peaks: result.peaks, loudness: result.loudness, duration: buffer.duration };
+};
+
+/**
+ * Service for analysing songs in a web worker
+ *
+ * A song is downloaded and decoded once, and its waveform peaks and loudness
+ * are both computed from that one decode. Songs longer than the decoder's
+ * limit are not analysed.
+ */
+export const audioAnalysisService = {
+
+  /**
+   * Returns the waveform peaks and loudness of a song, decoding it unless it was just analysed
+   *
+   * @param {number} songId - The song to analyse
+   * @param {number} duration - The song's duration in seconds, or 0 if not known
+   * @returns {Promise<SongAnalysis | null>} The analysis, or null if the song could not be decoded or is too long
+   */
+  analyzeSong: (songId: number, duration: number): Promise<SongAnalysis | null> => {
+    const recent = recentAnalyses.get(songId);
+    if (recent) return Promise.resolve(recent);
+
+    const pending = pendingAnalyses.get(songId);
+    if (pending) return pending;
+
+    const analysis = decodeAndAnalyze(songId, duration)
+      .then(result => {
+        if (result) {
+          recentAnalyses.set(songId, result);
+          // Maps keep insertion order, so the first key is the oldest analysis
+          if (recentAnalyses.size > MAX_RECENT_ANALYSES) {
+            recentAnalyses.delete(recentAnalyses.keys().next().value as number);
+          }
+        }
+        return result;
+      })
+      .finally(() => {
+        pendingAnalyses.delete(songId);
+      });
+
+    pendingAnalyses.set(songId, analysis);
+    return analysis;
+  }
+};
+
+export default audioAnalysisService;
@@ -0,0 +1,108 @@
+import { streamUrlService } from './streamUrl.service';
+import { debugLog } from '../utils/logger';
+
+/**
+ * Longest song that is decoded, in seconds
+ *
+ * Decoded audio takes about 10 MB per stereo minute, so longer songs such as
+ * DJ mixes are not analysed at all.
+ */
+export const MAX_DECODE_SECONDS = 15 * 60;
+
+// Limits the download when the duration is not known, about 15 minutes at 320 kbps
+const MAX_DECODE_BYTES = 40 * 1024 * 1024;
+
+// Decoding a whole track is expensive, so songs are decoded one at a time
+let decodeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Reads a response body, giving up as soon as it grows beyond the limit
+ */
+const readWithLimit = async (response: Response, maxBytes: number): Promise<ArrayBuffer | null> => {
+  const declaredLength = Number(response.headers.get('Content-Length'));
+  if (declaredLength > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  if (!response.body) return response.arrayBuffer();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.length;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return data.buffer;
+};
+
+/**
+ * Downloads a song's stream and decodes it into raw samples
+ */
+const fetchAndDecode = async (songId: number, duration: number): Promise<AudioBuffer | null> => {
+  if (typeof OfflineAudioContext === 'undefined') return null;
+
+  if (duration > MAX_DECODE_SECONDS) {
+    debugLog(`audioDecoder: Song ${songId} is too long to decode`);
+    return null;
+  }
+
+  const url = await streamUrlService.getStreamUrl(songId);
+  const response = await fetch(url);
+  if (!response.ok) return null;
+
+  const data = await readWithLimit(response, MAX_DECODE_BYTES);
+  if (!data) {
+    debugLog(`audioDecoder: Song ${songId} is too large to decode`);
+    return null;
+  }
+
+  // Decoding only needs a context, not playback, so a one-sample offline context is enough
+  const context = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await context.decodeAudioData(data);
+
+  // The stream was small but long, for example spoken word at a low bitrate
+  return buffer.duration > MAX_DECODE_SECONDS ? null : buffer;
+};
+
+/**
+ * Service for decoding songs in the browser for analysis
+ *
+ * Used by features that need the actual audio rather than the playing
+ * element, such as loudness measurement and waveform rendering. Songs longer
+ * than MAX_DECODE_SECONDS are skipped, checked against the known duration
+ * before downloading and against the size of the stream while downloading.
+ */
+export const audioDecoderService = {
+
+  /**
+   * Decodes a song, waiting for any decode that is already running to finish first
+   *
+   * @param {number} songId - The song to decode
+   * @param {number} duration - The song's duration in seconds, or 0 if not known
+   * @returns {Promise<AudioBuffer | null>} The decoded audio, or null if decoding is not supported, the song is too long or the stream is missing
+   */
+  decode: (songId: number, duration: number): Promise<AudioBuffer | null> => {
+    const result = decodeQueue.then(() => fetchAndDecode(songId, duration));
+    decodeQueue = result.catch(() => {});
+    return result;
+  }
+};
+
+export default audioDecoderService;
@@ -0,0 +1,530 @@
+/**
+ * Audio engine for managing the playback elements
+ *
+ * The engine owns two audio elements: the active element that is currently
+ * audible and a standby element used to buffer the next track ahead of time.
+ * When the current track ends, the standby element is promoted so the next
+ * track starts without waiting for the stream to load.
+ *
+ * Both elements can be routed through a Web Audio graph, which is created
+ * lazily the first time a feature needs it (for example crossfading). Each
+ * element gets its own gain nodes, so the two can be normalized and faded
+ * independently:
+ *
+ *   element -> source -> normalization gain -> element gain -> master gain -> [equalizer] -> destination
+ *
+ * The equalizer filters are only part of the graph while at least one band
+ * is boosted or cut, so a flat equalizer costs nothing. An analyser for
+ * visualizations can be attached to the end of the chain; it only listens
+ * and does not change the output.
+ */
+
+import { EQUALIZER_FREQUENCIES } from '../store/equalizerStore';
+
+interface AudioGraph {
+  context: AudioContext;
+  masterGain: GainNode;
+  elementGains: Map<HTMLAudioElement, GainNode>;
+  normalizationGains: Map<HTMLAudioElement, GainNode>;
+  equalizer: BiquadFilterNode[] | null;
+  analyser: AnalyserNode | null;
+}
+
+const CROSSFADE_CURVE_POINTS = 64;
+const EQUALIZER_Q = 1.4;
+const ANALYSER_FFT_SIZE = 2048;
+// Normalization changes glide over roughly this many seconds to avoid clicks
+const NORMALIZATION_SMOOTHING = 0.5;
+
+let activeElement: HTMLAudioElement | null = null;
+let standbyElement: HTMLAudioElement | null = null;
+let preloadedSongId: number | null = null;
+let pendingPreload: { songId: number; url: string } | null = null;
+let graph: AudioGraph | null = null;
+let volume = 1;
+let playbackRate = 1;
+let preservesPitch = true;
+let crossfadeTimer: ReturnType<typeof setTimeout> | null = null;
+let fadingElement: HTMLAudioElement | null = null;
+let equalizerGains: number[] | null = null;
+const elementSongIds = new Map<HTMLAudioElement, number>();
+const trackGains = new Map<number, number>();
+
+const createElement = (): HTMLAudioElement => {
+  const element = new Audio();
+  element.preload = 'auto';
+  // Required so the stream can be processed by the Web Audio graph. Setting it
+  // only once the graph exists would mean reloading the playing stream, so the
+  // stream host must always send CORS headers (see README)
+  element.crossOrigin = 'anonymous';
+  return element;
+};
+
+/**
+ * Builds an equal-power fade curve, which keeps the perceived loudness
+ * constant while two tracks overlap
+ */
+const createFadeCurve = (fadeIn: boolean): Float32Array => {
+  const curve = new Float32Array(CROSSFADE_CURVE_POINTS);
+
+  for (let i = 0; i < CROSSFADE_CURVE_POINTS; i++) {
+    const position = i / (CROSSFADE_CURVE_POINTS - 1);
+    curve[i] = fadeIn
+      ? Math.sin(position * 0.5 * Math.PI)
+      : Math.cos(position * 0.5 * Math.PI);
+  }
+
+  return curve;
+};
+
+const getElementGain = (element: HTMLAudioElement): GainNode | null => {
+  return graph?.elementGains.get(element) || null;
+};
+
+const setElementGain = (element: HTMLAudioElement, value: number) => {
+  const gain = getElementGain(element);
+  if (gain && graph) {
+    gain.gain.cancelScheduledValues(graph.context.currentTime);
+    gain.gain.setValueAtTime(value, graph.context.currentTime);
+  }
+};
+
+/**
+ * Applies the normalization gain of the song loaded on an element
+ */
+const applyTrackGain = (element: HTMLAudioElement) => {
+  const gain = graph?.normalizationGains.get(element);
+  if (!gain || !graph) return;
+
+  const songId = elementSongIds.get(element);
+  const value = songId !== undefined ? trackGains.get(songId) ?? 1 : 1;
+  gain.gain.setTargetAtTime(value, graph.context.currentTime, NORMALIZATION_SMOOTHING / 3);
+};
+
+/**
+ * Applies the playback rate to an element
+ *
+ * The default rate is set too, because loading a new source resets the
+ * element's rate to its default.
+ */
+const applyPlaybackRate = (element: HTMLAudioElement) => {
+  element.defaultPlaybackRate = playbackRate;
+  element.playbackRate = playbackRate;
+  element.preservesPitch = preservesPitch;
+};
+
+const applyVolume = () => {
+  if (graph) {
+    graph.masterGain.gain.setValueAtTime(volume, graph.context.currentTime);
+    audioEngineService.getElements().forEach(element => {
+      element.volume = 1;
+    });
+  } else {
+    audioEngineService.getElements().forEach(element => {
+      element.volume = volume;
+    });
+  }
+};
+
+/**
+ * Creates one filter per equalizer band, chained in series
+ *
+ * The outer bands are shelves so they also shape everything below the lowest
+ * and above the highest center frequency.
+ */
+const createEqualizer = (context: AudioContext): BiquadFilterNode[] => {
+  const filters = EQUALIZER_FREQUENCIES.map((frequency, index) => {
+    const filter = context.createBiquadFilter();
+
+    if (index === 0) {
+      filter.type = 'lowshelf';
+    } else if (index === EQUALIZER_FREQUENCIES.length - 1) {
+      filter.type = 'highshelf';
+    } else {
+      filter.type = 'peaking';
+      filter.Q.value = EQUALIZER_Q;
+    }
+    filter.frequency.value = frequency;
+    return filter;
+  });
+
+  filters.forEach((filter, index) => {
+    filter.connect(filters[index + 1] || context.destination);
+  });
+
+  return filters;
+};
+
+/**
+ * Connects the master gain to the output, through the equalizer only when it
+ * has an effect, and feeds the final signal to the analyser if there is one
+ */
+const connectOutput = () => {
+  if (!graph) return;
+
+  graph.masterGain.disconnect();
+  let output: AudioNode = graph.masterGain;
+
+  if (equalizerGains) {
+    if (!graph.equalizer) {
+      graph.equalizer = createEqualizer(graph.context);
+    }
+
+    const now = graph.context.currentTime;
+    graph.equalizer.forEach((filter, index) => {
+      filter.gain.setValueAtTime(equalizerGains?.[index] ?? 0, now);
+    });
+    graph.masterGain.connect(graph.equalizer[0]);
+    output = graph.equalizer[graph.equalizer.length - 1];
+  } else {
+    graph.masterGain.connect(graph.context.destination);
+  }
+
+  if (graph.analyser) {
+    output.connect(graph.analyser);
+  }
+};
+
+/**
+ * Stops a running crossfade immediately: the outgoing track is silenced and
+ * the incoming track is brought to full level
+ */
+const finishCrossfade = () => {
+  if (crossfadeTimer) {
+    clearTimeout(crossfadeTimer);
+    crossfadeTimer = null;
+  }
+
+  if (fadingElement) {
+    fadingElement.pause();
+    setElementGain(fadingElement, 1);
+    fadingElement = null;
+  }
+
+  if (activeElement) {
+    setElementGain(activeElement, 1);
+  }
+
+  if (pendingPreload) {
+    const { songId, url } = pendingPreload;
+    pendingPreload = null;
+    audioEngineService.preload(songId, url);
+  }
+};
+
+export const audioEngineService = {
+
+  /**
+   * Returns the element that is currently used for playback
+   */
+  getActiveElement: (): HTMLAudioElement => {
+    if (!activeElement) {
+      activeElement = createElement();
+    }
+    return activeElement;
+  },
+
+  /**
+   * Returns the standby element used for preloading the next track
+   */
+  getStandbyElement: (): HTMLAudioElement => {
+    if (!standbyElement) {
+      standbyElement = createElement();
+    }
+    return standbyElement;
+  },
+
+  /**
+   * Returns both playback elements, active element first
+   */
+  getElements: (): HTMLAudioElement[] => {
+    return [audioEngineService.getActiveElement(), audioEngineService.getStandbyElement()];
+  },
+
+  isActiveElement: (element: EventTarget | null): boolean => {
+    return element !== null && element === activeElement;
+  },
+
+  /**
+   * Creates the Web Audio graph if it does not exist yet
+   *
+   * @returns {AudioGraph | null} The graph, or null if Web Audio is not supported
+   */
+  ensureGraph: (): AudioGraph | null => {
+    if (graph) return graph;
+    if (typeof AudioContext === 'undefined') return null;
+
+    const context = new AudioContext();
+    const masterGain = context.createGain();
+
+    const elementGains = new Map<HTMLAudioElement, GainNode>();
+    const normalizationGains = new Map<HTMLAudioElement, GainNode>();
+    audioEngineService.getElements().forEach(element => {
+      const source = context.createMediaElementSource(element);
+      const normalization = context.createGain();
+      const gain = context.createGain();
+      source.connect(normalization);
+      normalization.connect(gain);
+      gain.connect(masterGain);
+      elementGains.set(element, gain);
+      normalizationGains.set(element, normalization);
+    });
+
+    graph = { context, masterGain, elementGains, normalizationGains, equalizer: null, analyser: null };
+    connectOutput();
+    applyVolume();
+    audioEngineService.getElements().forEach(applyTrackGain);
+    return graph;
+  },
+
+  /**
+   * Resumes the audio context after a user gesture
+   *
+   * Browsers start audio contexts suspended until the user interacts with the page.
+   */
+  resume: () => {
+    if (graph && graph.context.state === 'suspended') {
+      graph.context.resume().catch(() => {});
+    }
+  },
+
+  setVolume: (value: number) => {
+    volume = value;
+    applyVolume();
+  },
+
+  /**
+   * Returns an analyser that receives exactly what is played, creating the
+   * Web Audio graph if needed
+   *
+   * @returns {AnalyserNode | null} The analyser, or null if Web Audio is not supported
+   */
+  getAnalyser: (): AnalyserNode | null => {
+    const audioGraph = audioEngineService.ensureGraph();
+    if (!audioGraph) return null;
+
+    if (!audioGraph.analyser) {
+      const analyser = audioGraph.context.createAnalyser();
+      analyser.fftSize = ANALYSER_FFT_SIZE;
+      analyser.smoothingTimeConstant = 0.8;
+      audioGraph.analyser = analyser;
+      connectOutput();
+    }
+
+    return audioGraph.analyser;
+  },
+
+  /**
+   * Sets the equalizer band gains in dB, one per band
+   *
+   * Pass null (or all zeros) to take the equalizer out of the graph. The Web
+   * Audio graph is only created once the equalizer actually has an effect.
+   */
+  setEqualizer: (gains: number[] | null) => {
+    equalizerGains = gains && gains.some(gain => gain !== 0) ? gains : null;
+
+    if (equalizerGains && !graph) {
+      audioEngineService.ensureGraph();
+      audioEngineService.resume();
+    } else {
+      connectOutput();
+    }
+  },
+
+  /**
+   * Sets the speed of the active element and whether its pitch is kept
+   *
+   * Tracks buffered from now on start at the same speed.
+   */
+  setPlaybackRate: (rate: number, keepPitch: boolean) => {
+    playbackRate = rate;
+    preservesPitch = keepPitch;
+    applyPlaybackRate(audioEngineService.getActiveElement());
+  },
+
+  /**
+   * Records which song is loaded on the active element, so the right
+   * normalization gain is applied to it
+   */
+  setActiveSong: (songId: number | null) => {
+    const active = audioEngineService.getActiveElement();
+
+    if (songId === null) {
+      elementSongIds.delete(active);
+    } else {
+      elementSongIds.set(active, songId);
+    }
+    applyTrackGain(active);
+  },
+
+  /**
+   * Returns the song loaded on the active element
+   *
+   * Stream URLs can change while a song plays (signed URLs are refreshed), so
+   * this rather than the element's source tells which song is loaded.
+   */
+  getActiveSongId: (): number | null => {
+    return elementSongIds.get(audioEngineService.getActiveElement()) ?? null;
+  },
+
+  /**
+   * Sets the linear normalization gain for a song, applied whenever the song
+   * is loaded on either element
+   *
+   * Has no audible effect until the Web Audio graph exists.
+   */
+  setTrackGain: (songId: number, gain: number) => {
+    trackGains.set(songId, gain);
+    audioEngineService.getElements()
+      .filter(element => elementSongIds.get(element) === songId)
+      .forEach(applyTrackGain);
+  },
+
+  /**
+   * Removes every normalization gain, returning all songs to their original level
+   */
+  clearTrackGains: () => {
+    trackGains.clear();
+    audioEngineService.getElements().forEach(applyTrackGain);
+  },
+
+  /**
+   * Starts buffering a song on the standby element
+   *
+   * Does nothing if the song is already preloaded. While a crossfade is
+   * running the standby element is still audible, so the request is deferred
+   * until the fade has finished.
+   */
+  preload: (songId: number, url: string) => {
+    if (fadingElement) {
+      pendingPreload = { songId, url };
+      return;
+    }
+
+    const standby = audioEngineService.getStandbyElement();
+
+    if (preloadedSongId === songId && standby.src === url) {
+      return;
+    }
+
+    preloadedSongId = songId;
+    elementSongIds.set(standby, songId);
+    applyTrackGain(standby);
+    applyPlaybackRate(standby);
+    standby.pause();
+    standby.src = url;
+    standby.load();
+  },
+
+  getPreloadedSongId: (): number | null => {
+    return preloadedSongId;
+  },
+
+  /**
+   * Makes the preloaded standby element the active element
+   *
+   * @returns {HTMLAudioElement | null} The new active element, or null if the song was not preloaded
+   */
+  promotePreloaded: (songId: number): HTMLAudioElement | null => {
+    if (preloadedSongId !== songId || !standbyElement || !activeElement) {
+      return null;
+    }
+
+    finishCrossfade();
+
+    const previous = activeElement;
+    activeElement = standbyElement;
+    standbyElement = previous;
+    preloadedSongId = null;
+
+    previous.pause();
+    setElementGain(activeElement, 1);
+    return activeElement;
+  },
+
+  isCrossfading: (): boolean => {
+    return fadingElement !== null;
+  },
+
+  /**
+   * Ends a running crossfade right away, silencing the outgoing track
+   */
+  cancelCrossfade: () => {
+    finishCrossfade();
+  },
+
+  /**
+   * Overlaps the end of the active track with the start of the preloaded one
+   *
+   * The preloaded element starts playing silently and is faded in while the
+   * active element is faded out over the given duration. The preloaded element
+   * becomes the active element immediately; the outgoing element is paused
+   * once the fade has finished.
+   *
+   * @returns {HTMLAudioElement | null} The new active element, or null if crossfading is not possible
+   */
+  crossfadeToPreloaded: (songId: number, seconds: number): HTMLAudioElement | null => {
+    if (preloadedSongId !== songId || !standbyElement || !activeElement || fadingElement) {
+      return null;
+    }
+
+    const audioGraph = audioEngineService.ensureGraph();
+    const outgoing = activeElement;
+    const incoming = standbyElement;
+    const outgoingGain = getElementGain(outgoing);
+    const incomingGain = getElementGain(incoming);
+
+    if (!audioGraph || !outgoingGain || !incomingGain) {
+      return null;
+    }
+
+    const now = audioGraph.context.currentTime;
+    const duration = Math.max(0.1, seconds);
+
+    outgoingGain.gain.cancelScheduledValues(now);
+    incomingGain.gain.cancelScheduledValues(now);
+    outgoingGain.gain.setValueCurveAtTime(createFadeCurve(false), now, duration);
+    incomingGain.gain.setValueCurveAtTime(createFadeCurve(true), now, duration);
+
+    activeElement = incoming;
+    standbyElement = outgoing;
+    preloadedSongId = null;
+    fadingElement = outgoing;
+
+    incoming.currentTime = 0;
+    incoming.play().catch(() => {});
+
+    crossfadeTimer = setTimeout(finishCrossfade, duration * 1000);
+    return incoming;
+  },
+
+  /**
+   * Discards whatever is buffered on the standby element
+   */
+  clearPreload: () => {
+    preloadedSongId = null;
+    pendingPreload = null;
+
+    if (fadingElement) {
+      return;
+    }
+
+    if (standbyElement) {
+      elementSongIds.delete(standbyElement);
+      standbyElement.pause();
+      standbyElement.removeAttribute('src');
+      standbyElement.load();
+    }
+  },
+
+  /**
+   * Stops all playback, including a track that is still fading out
+   */
+  stop: () => {
+    finishCrossfade();
+    audioEngineService.getActiveElement().pause();
+    audioEngineService.clearPreload();
+  }
+};
+
+export default audioEngineService;
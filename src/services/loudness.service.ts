@@ -0,0 +1,174 @@
+import { SongDto } from '../types';
+import { NormalizationMode } from '../store/playerStore';
+import { audioAnalysisService } from './audioAnalysis.service';
+import { albumService } from './album.service';
+import { waveformService } from './waveform.service';
+import { combineLoudness } from '../utils/loudness';
+import { readStorage, writeStorage } from '../utils/storage';
+import { debugLog } from '../utils/logger';
+
+/**
+ * Level every track (or album) is brought to, in LUFS
+ */
+export const NORMALIZATION_TARGET_LUFS = -14;
+
+/**
+ * Largest boost applied to quiet tracks, in dB
+ */
+const MAX_BOOST_DB = 12;
+
+const CACHE_STORAGE_KEY = 'groovy.loudness';
+const MAX_CACHED_TRACKS = 2000;
+
+/**
+ * Loudness analysis result for one song
+ */
+interface TrackLoudness {
+  loudness: number;
+  peak: number;
+  duration: number;
+}
+
+const trackCache = new Map<number, TrackLoudness>(
+  Object.entries(readStorage<Record<string, TrackLoudness>>(CACHE_STORAGE_KEY, {}))
+    .map(([songId, value]) => [Number(songId), value])
+);
+// Songs that could not be measured this session, so they are not downloaded again on every play
+const unmeasuredTracks = new Set<number>();
+const pendingTracks = new Map<number, Promise<TrackLoudness | null>>();
+const albumCache = new Map<number, Promise<number | null>>();
+
+const saveCache = () => {
+  const entries = Array.from(trackCache.entries()).slice(-MAX_CACHED_TRACKS);
+  writeStorage(CACHE_STORAGE_KEY, Object.fromEntries(entries));
+};
+
+/**
+ * Measures a song's loudness, keeping the waveform from the same decode for the seek bar
+ */
+const analyzeSong = async (songId: number, duration: number): Promise<TrackLoudness | null> => {
+  const analysis = await audioAnalysisService.analyzeSong(songId, duration);
+  if (!analysis) return null;
+
+  waveformService.savePeaks(songId, analysis.peaks);
+  if (!analysis.loudness) return null;
+
+  return { ...analysis.loudness, duration: analysis.duration };
+};
+
+/**
+ * Converts a loudness into the linear gain that brings it to the target,
+ * reduced where needed so that the loudest sample does not clip
+ */
+const toGain = (loudness: number, peak: number): number => {
+  const gainDb = Math.min(NORMALIZATION_TARGET_LUFS - loudness, MAX_BOOST_DB);
+  const gain = Math.pow(10, gainDb / 20);
+  return peak > 0 ? Math.min(gain, 1 / peak) : gain;
+};
+
+/**
+ * Service for measuring track loudness and computing normalization gains
+ *
+ * Each song is analysed once in the browser; results are cached in memory
+ * and in local storage by song id, so later plays need no download.
+ */
+export const loudnessService = {
+
+  /**
+   * Returns the loudness of a song, analysing it if it has not been measured yet
+   *
+   * Songs that could not be analysed are not tried again until the page is reloaded.
+   *
+   * @returns {Promise<TrackLoudness | null>} The measurement, or null if the song could not be analysed or is too long
+   */
+  getTrackLoudness: (song: SongDto): Promise<TrackLoudness | null> => {
+    const songId = song.id;
+    if (songId === undefined) return Promise.resolve(null);
+
+    const cached = trackCache.get(songId);
+    if (cached) return Promise.resolve(cached);
+    if (unmeasuredTracks.has(songId)) return Promise.resolve(null);
+
+    const pending = pendingTracks.get(songId);
+    if (pending) return pending;
+
+    const analysis = analyzeSong(songId, song.duration)
+      .then(result => {
+        if (result) {
+          debugLog(`loudness: Song ${songId} measured at ${result.loudness.toFixed(1)} LUFS`);
+          trackCache.set(songId, result);
+          saveCache();
+        } else {
+          unmeasuredTracks.add(songId);
+        }
+        return result;
+      })
+      .catch(error => {
+        console.error(`loudness: Could not analyse song ${songId}`, error);
+        unmeasuredTracks.add(songId);
+        return null;
+      })
+      .finally(() => {
+        pendingTracks.delete(songId);
+      });
+
+    pendingTracks.set(songId, analysis);
+    return analysis;
+  },
+
+  /**
+   * Returns the combined loudness of every song on an album
+   *
+   * Songs that could not be analysed are left out of the result.
+   *
+   * @returns {Promise<number | null>} The album loudness in LUFS, or null if no song could be analysed
+   */
+  getAlbumLoudness: (albumId: number): Promise<number | null> => {
+    const cached = albumCache.get(albumId);
+    if (cached) return cached;
+
+    const analysis = (async () => {
+      const response = await albumService.getAlbumById(albumId);
+      const songs = (response.data?.songs || []).filter(song => song.id !== undefined);
+
+      // Every song is either measured or remembered as unmeasurable, so the result can be kept
+      const results = await Promise.all(songs.map(loudnessService.getTrackLoudness));
+      return combineLoudness(results.filter((result): result is TrackLoudness => result !== null));
+    })();
+
+    // Retry on the next request if the album itself could not be loaded
+    analysis.catch(() => albumCache.delete(albumId));
+
+    albumCache.set(albumId, analysis);
+    return analysis;
+  },
+
+  /**
+   * Returns the linear gain that normalizes a song in the given mode
+   *
+   * In album mode every song on the album gets the same gain, so the
+   * loudness differences between its songs are kept. Songs without an album
+   * fall back to track mode.
+   *
+   * @returns {Promise<number | null>} The gain, or null if the song could not be analysed
+   */
+  getGain: async (song: SongDto, mode: NormalizationMode): Promise<number | null> => {
+    if (mode === 'off' || song.id === undefined) return null;
+
+    const track = await loudnessService.getTrackLoudness(song);
+    if (!track) return null;
+
+    if (mode === 'album' && song.albumId !== undefined) {
+      const albumLoudness = await loudnessService.getAlbumLoudness(song.albumId);
+
+      if (albumLoudness !== null) {
+        // The album gain is limited by this song's peak, like in track mode
+        return toGain(albumLoudness, track.peak);
+      }
+    }
+
+    return toGain(track.loudness, track.peak);
+  }
+};
+
+export default loudnessService;
@@ -0,0 +1,76 @@
+import { SongDto, ApiResponse } from '../types';
+import { songService } from './song.service';
+import { debugLog } from '../utils/logger';
+
+// Lyrics by song id; an empty string means the song has none
+const lyricsCache = new Map<number, string>();
+const pendingLyrics = new Map<number, Promise<string>>();
+
+/**
+ * Service for the lyrics of songs
+ *
+ * Lyrics are stored on the song itself. Song lists may leave them out, so a
+ * song without them is fetched once and the answer is cached for the session.
+ */
+export const lyricsService = {
+
+  /**
+   * Returns the lyrics of a song
+   *
+   * @param {SongDto} song - The song, with or without its lyrics
+   * @returns {Promise<string>} Plain text or LRC, or an empty string when the song has none
+   */
+  getLyrics: async (song: SongDto): Promise<string> => {
+    if (song.id === undefined) return song.lyrics ?? '';
+
+    const cached = lyricsCache.get(song.id);
+    if (cached !== undefined) return cached;
+
+    if (song.lyrics !== undefined) {
+      lyricsCache.set(song.id, song.lyrics);
+      return song.lyrics;
+    }
+
+    const songId = song.id;
+    let pending = pendingLyrics.get(songId);
+    if (!pending) {
+      pending = songService.getSongById(songId)
+        .then(response => {
+          const lyrics = response.data?.lyrics ?? '';
+          // A failed request is asked again next time
+          if (response.data) {
+            lyricsCache.set(songId, lyrics);
+          }
+          return lyrics;
+        })
+        .finally(() => pendingLyrics.delete(songId));
+      pendingLyrics.set(songId, pending);
+    }
+
+    return pending;
+  },
+
+  /**
+   * Attaches lyrics to a song, replacing any it had
+   *
+   * @param {SongDto} song - The song to update
+   * @param {string} lyrics - Plain text or LRC; an empty string removes the lyrics
+   * @returns {Promise<ApiResponse<SongDto>>} The updated song
+   */
+  saveLyrics: async (song: SongDto, lyrics: string): Promise<ApiResponse<SongDto>> => {
+    if (song.id === undefined) {
+      return { data: undefined, error: 'Song has no id', status: 400 };
+    }
+
+    const trimmed = lyrics.trim();
+    const response = await songService.updateSong(song.id, { ...song, lyrics: trimmed });
+
+    if (response.data) {
+      debugLog(`lyrics: Saved lyrics of song ${song.id}`);
+      lyricsCache.set(song.id, trimmed);
+    }
+    return response;
+  }
+};
+
+export default lyricsService;
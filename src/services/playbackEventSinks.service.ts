@@ -0,0 +1,174 @@
+import { isAxiosError } from 'axios';
+import api from './api';
+import { authService } from './auth.service';
+import { useAuthStore } from '../store/authStore';
+import { readStorage, writeStorage } from '../utils/storage';
+import { PlaybackEvent, PlaybackEventSink } from './playbackEvents.service';
+
+/**
+ * Options of the sink that sends events to the API
+ */
+interface HttpSinkOptions {
+  /** API path the batches are posted to, as `{ events: PlaybackEvent[] }` */
+  endpoint: string;
+  /** Events sent per request; a full batch is sent right away */
+  batchSize?: number;
+  /** How often a partial batch is sent */
+  flushIntervalMs?: number;
+}
+
+// Oldest events are dropped beyond this, so a long time offline cannot fill local storage
+const MAX_BUFFERED_EVENTS = 1000;
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 30 * 1000;
+
+// Each user has their own buffer, so events are only ever sent with the account they happened in
+const bufferKey = (userId: number | null) => `groovy.playbackEvents.${userId ?? 'guest'}`;
+
+/**
+ * Events waiting to be sent are kept in local storage rather than in memory,
+ * so they survive going offline, closing the page and being buffered by
+ * several tabs
+ */
+const readBuffer = (userId: number | null): PlaybackEvent[] => {
+  return readStorage<PlaybackEvent[]>(bufferKey(userId), []);
+};
+
+const writeBuffer = (userId: number | null, events: PlaybackEvent[]) => {
+  writeStorage(bufferKey(userId), events.slice(-MAX_BUFFERED_EVENTS));
+};
+
+const getCurrentUserId = (): number | null => useAuthStore.getState().user?.id ?? null;
+
+/**
+ * Determines whether a failed batch should be sent again later
+ *
+ * Requests the server refused outright would be refused again, so only
+ * network failures, timeouts, rate limiting and server errors are retried.
+ * Events refused because the session ran out are kept as well, and sent once
+ * the same user signs in again.
+ */
+const isRetryable = (status: number | undefined): boolean => {
+  return status === undefined || status === 401 || status === 403
+    || status === 408 || status === 429 || status >= 500;
+};
+
+/**
+ * Creates a sink that posts events to the API in batches
+ *
+ * Events are buffered in local storage and sent when a batch is full, on an
+ * interval, when the connection comes back and when the sink is flushed.
+ * While offline, signed out, or when sending fails, they stay buffered and
+ * are sent with a later batch, also on a later visit.
+ *
+ * Only the signed-in user's events are sent, with the token there was when
+ * sending started, so a flush started right before logging out still
+ * delivers them.
+ *
+ * @param {HttpSinkOptions} options - Where and how often to send events
+ * @returns {PlaybackEventSink} The sink, to register with playbackEventsService
+ */
+export const createHttpSink = ({
+  endpoint,
+  batchSize = DEFAULT_BATCH_SIZE,
+  flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS
+}: HttpSinkOptions): PlaybackEventSink => {
+  let sending: Promise<void> | null = null;
+
+  const sendBatches = async (userId: number, token: string) => {
+    const headers = { Authorization: `Bearer ${token}` };
+    let batch = readBuffer(userId).slice(0, batchSize);
+
+    while (batch.length > 0 && navigator.onLine) {
+      // Another user signed in meanwhile, and requests now carry their token
+      const currentToken = authService.getToken();
+      if (currentToken && currentToken !== token) return;
+
+      try {
+        await api.post(endpoint, { events: batch }, { headers });
+      } catch (error) {
+        const status = isAxiosError(error) ? error.response?.status : undefined;
+        if (isRetryable(status)) {
+          console.warn(`playbackEvents: Sending ${batch.length} events failed, keeping them for later`);
+          return;
+        }
+        console.error(`playbackEvents: Server refused ${batch.length} events (${status}), dropping them`);
+      }
+
+      // Read again, as events may have been added while the batch was being sent
+      const sentIds = new Set(batch.map(event => event.id));
+      writeBuffer(userId, readBuffer(userId).filter(event => !sentIds.has(event.id)));
+      batch = readBuffer(userId).slice(0, batchSize);
+
+      // Local storage refused the write, so the same batch would be sent forever
+      if (batch.some(event => sentIds.has(event.id))) return;
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    const userId = getCurrentUserId();
+    const token = authService.getToken();
+
+    if (!sending && userId !== null && token) {
+      sending = sendBatches(userId, token).finally(() => {
+        sending = null;
+      });
+    }
+    return sending || Promise.resolve();
+  };
+
+  const handleOnline = () => {
+    flush();
+  };
+
+  const timer = setInterval(flush, flushIntervalMs);
+  window.addEventListener('online', handleOnline);
+
+  // Events left over from an earlier visit go out once their user is signed in
+  const flushLeftovers = () => {
+    const userId = getCurrentUserId();
+    if (userId !== null && readBuffer(userId).length > 0) {
+      flush();
+    }
+  };
+  const unsubscribeAuth = useAuthStore.subscribe((state, prev) => {
+    if (state.user?.id !== prev.user?.id) {
+      flushLeftovers();
+    }
+  });
+  flushLeftovers();
+
+  return {
+    name: 'http',
+    handle: (event: PlaybackEvent) => {
+      const userId = getCurrentUserId();
+      const buffer = [...readBuffer(userId), event];
+      writeBuffer(userId, buffer);
+
+      if (buffer.length >= batchSize) {
+        flush();
+      }
+    },
+    flush,
+    dispose: () => {
+      clearInterval(timer);
+      window.removeEventListener('online', handleOnline);
+      unsubscribeAuth();
+    }
+  };
+};
+
+/**
+ * Creates a sink that logs every event, for development
+ *
+ * @returns {PlaybackEventSink} The sink, to register with playbackEventsService
+ */
+export const createConsoleSink = (): PlaybackEventSink => ({
+  name: 'console',
+  handle: (event: PlaybackEvent) => {
+    console.log(
+      `playbackEvents: ${event.type} song ${event.songId ?? '-'} at ${event.position.toFixed(1)} s`,
+      event
+    );
+  }
+});
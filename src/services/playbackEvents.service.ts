@@ -0,0 +1,234 @@
+import { usePlayerStore, RepeatMode } from '../store/playerStore';
+import { PlaySource } from '../types';
+import { PlaybackErrorKind } from '../utils/playbackErrors';
+import { debugLog } from '../utils/logger';
+
+type PlayerStoreState = ReturnType<typeof usePlayerStore.getState>;
+
+/**
+ * What happened during playback
+ * - play_started: a song started or resumed playing
+ * - paused: playback was paused or stopped
+ * - seeked: the position jumped within the same song
+ * - skipped: another song was chosen before this one ended
+ * - completed: the song played to its end
+ * - error: the song could not be played
+ */
+export type PlaybackEventType = 'play_started' | 'paused' | 'seeked' | 'skipped' | 'completed' | 'error';
+
+/**
+ * How the song was being played when the event happened
+ */
+export interface PlaybackEventContext {
+  source: PlaySource | null;
+  isShuffled: boolean;
+  repeatMode: RepeatMode;
+}
+
+export interface PlaybackEvent {
+  /** Unique, so a receiver can drop events it got twice */
+  id: string;
+  type: PlaybackEventType;
+  songId: number | null;
+  /** Position in the song, in seconds */
+  position: number;
+  duration: number;
+  /** Epoch milliseconds */
+  timestamp: number;
+  context: PlaybackEventContext;
+  /** Where a seek started from, in seconds */
+  seekedFrom?: number;
+  errorKind?: PlaybackErrorKind;
+}
+
+/**
+ * Receives every playback event, for example to send them to a server
+ */
+export interface PlaybackEventSink {
+  name: string;
+  handle: (event: PlaybackEvent) => void;
+  /** Delivers events the sink is holding back, for example before the page closes */
+  flush?: () => Promise<void>;
+  /** Releases timers and listeners once the sink is unregistered */
+  dispose?: () => void;
+}
+
+// Position steps larger than this are seeks rather than playback moving on
+const SEEK_THRESHOLD_SECONDS = 2;
+
+const sinks = new Set<PlaybackEventSink>();
+let unsubscribe: (() => void) | null = null;
+// The song whose end was just reported, so moving on from it is not a skip
+let completedSongId: number | null = null;
+// The song whose A–B loop is jumping back to point A, which repeats the loop rather than seeks
+let loopWrapSongId: number | null = null;
+
+const createEventId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const emit = (
+  type: PlaybackEventType,
+  state: PlayerStoreState,
+  position: number,
+  extra: Pick<PlaybackEvent, 'seekedFrom' | 'errorKind'> = {}
+) => {
+  const event: PlaybackEvent = {
+    id: createEventId(),
+    type,
+    songId: state.currentSong?.id ?? null,
+    position,
+    duration: state.duration,
+    timestamp: Date.now(),
+    context: {
+      source: state.currentSource,
+      isShuffled: state.isShuffled,
+      repeatMode: state.repeatMode
+    },
+    ...extra
+  };
+
+  sinks.forEach(sink => {
+    try {
+      sink.handle(event);
+    } catch (error) {
+      console.error(`playbackEvents: Sink ${sink.name} failed`, error);
+    }
+  });
+};
+
+/**
+ * Turns player state changes into events
+ *
+ * Only the tab that plays reports events. Changes made in other tabs reach
+ * it as state, so every event is reported exactly once.
+ */
+const handleStateChange = (state: PlayerStoreState, prev: PlayerStoreState) => {
+  if (state.isRemoteControl || prev.isRemoteControl) return;
+
+  const songId = state.currentSong?.id ?? null;
+  const prevSongId = prev.currentSong?.id ?? null;
+
+  if (songId !== prevSongId) {
+    if (prev.currentSong && prevSongId !== completedSongId) {
+      emit(state.currentSong ? 'skipped' : 'paused', prev, prev.progress);
+    }
+    completedSongId = null;
+    loopWrapSongId = null;
+
+    if (state.currentSong && state.isPlaying) {
+      emit('play_started', state, state.progress);
+    }
+    return;
+  }
+
+  if (!state.currentSong) return;
+
+  const step = state.progress - prev.progress;
+
+  // A song that ended and starts over, with repeat one, plays again rather than seeks
+  if (completedSongId === songId && state.isPlaying && step < 0) {
+    completedSongId = null;
+    emit('play_started', state, state.progress);
+    return;
+  }
+
+  const isLoopWrap = loopWrapSongId === songId && step < 0;
+  if (isLoopWrap) {
+    loopWrapSongId = null;
+  }
+
+  // Stopping after the last song also returns to the start, which is no seek either
+  if (Math.abs(step) > SEEK_THRESHOLD_SECONDS && completedSongId !== songId && !isLoopWrap) {
+    emit('seeked', state, state.progress, { seekedFrom: prev.progress });
+  }
+
+  if (state.isPlaying && !prev.isPlaying) {
+    completedSongId = null;
+    emit('play_started', state, state.progress);
+  } else if (!state.isPlaying && prev.isPlaying && completedSongId !== songId) {
+    emit('paused', state, state.progress);
+  }
+};
+
+/**
+ * Service that reports what happens during playback to pluggable sinks
+ *
+ * Starting, pausing, seeking and skipping are read from the player store, so
+ * every way of controlling the player is covered. The end of a song and
+ * playback errors are only known to the playback engine, which reports them
+ * with reportCompleted and reportError. Jumps back to the start of an A–B
+ * loop are reported with reportLoopWrap, so they are not taken for seeks.
+ */
+export const playbackEventsService = {
+
+  /**
+   * Starts turning player state changes into events
+   */
+  start: () => {
+    if (unsubscribe) return;
+    unsubscribe = usePlayerStore.subscribe(handleStateChange);
+  },
+
+  stop: () => {
+    if (unsubscribe) {
+      unsubscribe();
+      unsubscribe = null;
+    }
+  },
+
+  /**
+   * Adds a sink that receives every event from now on
+   *
+   * @param {PlaybackEventSink} sink - The sink to add
+   * @returns {() => void} Removes the sink again and disposes of it
+   */
+  registerSink: (sink: PlaybackEventSink): (() => void) => {
+    debugLog(`playbackEvents: Registering sink ${sink.name}`);
+    sinks.add(sink);
+
+    return () => {
+      if (sinks.delete(sink)) {
+        sink.dispose?.();
+      }
+    };
+  },
+
+  /**
+   * Reports that the current song played to its end
+   */
+  reportCompleted: () => {
+    const state = usePlayerStore.getState();
+    if (!state.currentSong || state.isRemoteControl) return;
+
+    completedSongId = state.currentSong.id ?? null;
+    emit('completed', state, state.duration);
+  },
+
+  /**
+   * Reports that the current song's A–B loop is about to jump back to point A
+   */
+  reportLoopWrap: () => {
+    const state = usePlayerStore.getState();
+    if (!state.currentSong || state.isRemoteControl) return;
+
+    loopWrapSongId = state.currentSong.id ?? null;
+  },
+
+  /**
+   * Reports that the current song could not be played
+   */
+  reportError: (kind: PlaybackErrorKind) => {
+    const state = usePlayerStore.getState();
+    if (!state.currentSong || state.isRemoteControl) return;
+
+    emit('error', state, state.progress, { errorKind: kind });
+  },
+
+  /**
+   * Asks every sink to deliver the events it is holding back
+   */
+  flush: async () => {
+    await Promise.all(Array.from(sinks).map(sink => sink.flush?.()));
+  }
+};
+
+export default playbackEventsService;
@@ -0,0 +1,197 @@
+import { SongDto, PlaylistDto, PlaySource } from '../types';
+import { usePlayerStore, RepeatMode, PlayedTrack, getSongKey } from '../store/playerStore';
+import { playerSyncService } from './playerSync.service';
+import { restoreOriginalOrder } from '../utils/shuffle';
+import { readStorage, writeStorage, removeStorage } from '../utils/storage';
+import { debugLog } from '../utils/logger';
+
+/**
+ * Snapshot of the player that is saved between page loads
+ */
+interface PlayerSession {
+  version: number;
+  userId: number;
+  currentSong: SongDto;
+  currentPlaylist: PlaylistDto | null;
+  queue: SongDto[];
+  nextUp?: SongDto[];
+  backStack?: PlayedTrack[];
+  autoplayQueue?: SongDto[];
+  playContext: SongDto[];
+  playSource: PlaySource | null;
+  currentSource: PlaySource | null;
+  volume: number;
+  position: number;
+  repeatMode: RepeatMode;
+  isShuffled: boolean;
+  shuffleSeed: number | null;
+  originalQueue: SongDto[];
+}
+
+const SESSION_VERSION = 1;
+const SAVE_DELAY_MS = 1000;
+
+const storageKey = (userId: number) => `groovy.playerSession.${userId}`;
+
+let sessionUserId: number | null = null;
+// The last user the session was attached to, which stays known after detaching
+let lastUserId: number | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let unsubscribe: (() => void) | null = null;
+
+const saveNow = () => {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+
+  if (sessionUserId === null) return;
+
+  const state = usePlayerStore.getState();
+
+  if (!state.currentSong) {
+    removeStorage(storageKey(sessionUserId));
+    return;
+  }
+
+  const session: PlayerSession = {
+    version: SESSION_VERSION,
+    userId: sessionUserId,
+    currentSong: state.currentSong,
+    currentPlaylist: state.currentPlaylist,
+    queue: state.queue,
+    nextUp: state.nextUp,
+    backStack: state.backStack,
+    autoplayQueue: state.autoplayQueue,
+    playContext: state.playContext,
+    playSource: state.playSource,
+    currentSource: state.currentSource,
+    volume: state.volume,
+    position: state.progress,
+    repeatMode: state.repeatMode,
+    isShuffled: state.isShuffled,
+    shuffleSeed: state.shuffleSeed,
+    originalQueue: state.originalQueue
+  };
+
+  writeStorage(storageKey(sessionUserId), session);
+};
+
+const scheduleSave = () => {
+  if (sessionUserId === null || saveTimer) return;
+  saveTimer = setTimeout(saveNow, SAVE_DELAY_MS);
+};
+
+/**
+ * Service for persisting the playback session across page reloads
+ *
+ * The session is stored per user. It is attached to a user once the
+ * authenticated user is known, and detached before the player is reset for
+ * a logout or a user switch, so one user's session is never written to or
+ * restored for another user.
+ */
+export const playerSessionService = {
+
+  /**
+   * Starts persisting the player for the given user
+   *
+   * When the player last belonged to a different user it is reset, so that
+   * user's song and queues are never saved for this one, and the user's own
+   * A–B loops and saved positions are loaded. If the player is
+   * then empty, the user's saved session is restored paused at the saved
+   * position, unless another tab is playing: restoring would pause that tab
+   * and send it back to the saved position.
+   */
+  attach: (userId: number) => {
+    if (sessionUserId !== userId) {
+      saveNow();
+
+      if (lastUserId !== null && lastUserId !== userId) {
+        // Not attached to anyone while resetting, so no session is overwritten with the empty player
+        sessionUserId = null;
+        debugLog('playerSession: Resetting the player for another user');
+        usePlayerStore.getState().stopAndClosePlayer();
+      }
+
+      sessionUserId = userId;
+      lastUserId = userId;
+      usePlayerStore.getState().loadUserData(userId);
+
+      // Another tab may be playing already, and its player arrives with the sync handshake
+      playerSyncService.whenOwnerKnown().then(() => {
+        const state = usePlayerStore.getState();
+        if (sessionUserId === userId && !state.currentSong && !state.isRemoteControl) {
+          playerSessionService.restore(userId);
+        }
+      });
+    }
+
+    if (!unsubscribe) {
+      unsubscribe = usePlayerStore.subscribe(scheduleSave);
+      window.addEventListener('pagehide', saveNow);
+    }
+  },
+
+  /**
+   * Stops persisting the player, saving any pending changes for the current user first
+   */
+  detach: () => {
+    saveNow();
+    sessionUserId = null;
+
+    if (unsubscribe) {
+      unsubscribe();
+      unsubscribe = null;
+      window.removeEventListener('pagehide', saveNow);
+    }
+  },
+
+  /**
+   * Loads a user's saved session into the player store
+   *
+   * @returns {boolean} True if a session was restored
+   */
+  restore: (userId: number): boolean => {
+    const session = readStorage<PlayerSession | null>(storageKey(userId), null);
+
+    if (!session || session.version !== SESSION_VERSION || session.userId !== userId || !session.currentSong) {
+      return false;
+    }
+
+    debugLog(`playerSession: Restoring session at ${session.currentSong.title}`);
+    const queue = session.queue || [];
+    usePlayerStore.setState({
+      currentSong: session.currentSong,
+      currentPlaylist: session.currentPlaylist,
+      queue,
+      nextUp: session.nextUp || [],
+      backStack: session.backStack || [],
+      autoplayQueue: session.autoplayQueue || [],
+      playContext: session.playContext || [],
+      playSource: session.playSource ?? null,
+      currentSource: session.currentSource ?? null,
+      volume: session.volume,
+      progress: session.position || 0,
+      duration: session.currentSong.duration || 0,
+      repeatMode: session.repeatMode || 'off',
+      isShuffled: !!session.isShuffled,
+      shuffleSeed: session.shuffleSeed ?? null,
+      // Made of the restored queue's own songs, in their original order
+      originalQueue: restoreOriginalOrder(session.originalQueue || [], queue, getSongKey),
+      isPlaying: false,
+      isPlayerVisible: true,
+      isFullscreen: false
+    });
+
+    return true;
+  },
+
+  /**
+   * Deletes a user's saved session
+   */
+  clear: (userId: number) => {
+    removeStorage(storageKey(userId));
+  }
+};
+
+export default playerSessionService;
@@ -0,0 +1,341 @@
+import { usePlayerStore } from '../store/playerStore';
+import { debugLog } from '../utils/logger';
+
+type PlayerStoreState = ReturnType<typeof usePlayerStore.getState>;
+
+/**
+ * Player store fields that are shared by every open tab
+ *
+ * Device preferences (crossfade, equalizer, speed) are already shared through
+ * local storage, and UI state such as fullscreen or queue visibility stays
+ * local to each tab.
+ */
+const SYNCED_KEYS = [
+  'currentSong',
+  'currentPlaylist',
+  'queue',
+  'nextUp',
+  'backStack',
+  'autoplayQueue',
+  'playContext',
+  'playSource',
+  'currentSource',
+  'repeatMode',
+  'isShuffled',
+  'shuffleSeed',
+  'originalQueue',
+  'isPlaying',
+  'volume',
+  'volumeBeforeMute',
+  'progress',
+  'duration',
+  'sleepTimer',
+  'sleepTimerRemaining',
+  'sleepFadeLevel',
+  'abLoops',
+  'resumePositions',
+  'unavailableSongIds'
+] as const;
+
+type SyncedState = Pick<PlayerStoreState, typeof SYNCED_KEYS[number]>;
+
+/**
+ * A tab's claim on playback. The most recent claim wins, with the tab id
+ * breaking ties, so every tab agrees on the owner without a coordinator.
+ */
+interface OwnerClaim {
+  tabId: string;
+  at: number;
+}
+
+type SyncMessage =
+  | { type: 'hello'; tabId: string }
+  | { type: 'claim'; claim: OwnerClaim }
+  | { type: 'state'; tabId: string; patch: Partial<SyncedState> }
+  | { type: 'leave'; tabId: string }
+  | { type: 'heartbeat'; tabId: string };
+
+const CHANNEL_NAME = 'groovy.player';
+// How long a new tab waits for the owner to answer before taking over playback
+const OWNER_REPLY_TIMEOUT_MS = 300;
+// Remaining tabs claim after a random delay when the owner closes, so one usually wins outright
+const MAX_CLAIM_DELAY_MS = 200;
+// The owner says it is still there this often, so a crashed owner is noticed without a 'leave'
+const HEARTBEAT_INTERVAL_MS = 5000;
+// A playing tab is never throttled, so only a crashed owner, or a paused one long hidden, misses it
+const OWNER_TIMEOUT_MS = 15000;
+
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+let channel: BroadcastChannel | null = null;
+let unsubscribe: (() => void) | null = null;
+let ownerClaim: OwnerClaim | null = null;
+let claimTimer: ReturnType<typeof setTimeout> | null = null;
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+// When the owner was last heard from
+let ownerSeenAt = 0;
+let isApplyingRemoteState = false;
+let resolveOwnerKnown: (() => void) | null = null;
+// Settles once this tab knows which tab owns playback, so nothing is restored over the playing tab
+const ownerKnown = new Promise<void>(resolve => {
+  resolveOwnerKnown = resolve;
+});
+
+const isNewerClaim = (claim: OwnerClaim, current: OwnerClaim | null): boolean => {
+  if (!current) return true;
+  return claim.at > current.at || (claim.at === current.at && claim.tabId > current.tabId);
+};
+
+const isOwner = (): boolean => ownerClaim?.tabId === tabId;
+
+const post = (message: SyncMessage) => {
+  try {
+    channel?.postMessage(message);
+  } catch {
+    // Another tab simply misses this update
+  }
+};
+
+const getSyncedState = (state: PlayerStoreState): SyncedState => {
+  const synced: Partial<SyncedState> = {};
+  SYNCED_KEYS.forEach(key => {
+    (synced as Record<string, unknown>)[key] = state[key];
+  });
+  return synced as SyncedState;
+};
+
+/**
+ * Applies state from another tab without sending it back out
+ */
+const applyRemoteState = (patch: Partial<PlayerStoreState>) => {
+  isApplyingRemoteState = true;
+  try {
+    usePlayerStore.setState(patch);
+  } finally {
+    isApplyingRemoteState = false;
+  }
+};
+
+/**
+ * Sends the synced fields that changed in this tab to the other tabs
+ */
+const broadcastChanges = (state: PlayerStoreState, previousState: PlayerStoreState) => {
+  if (isApplyingRemoteState) return;
+
+  const patch: Partial<SyncedState> = {};
+  let hasChanges = false;
+
+  SYNCED_KEYS.forEach(key => {
+    if (state[key] !== previousState[key]) {
+      (patch as Record<string, unknown>)[key] = state[key];
+      hasChanges = true;
+    }
+  });
+
+  if (hasChanges) {
+    post({ type: 'state', tabId, patch });
+  }
+};
+
+const cancelScheduledClaim = () => {
+  if (claimTimer) {
+    clearTimeout(claimTimer);
+    claimTimer = null;
+  }
+};
+
+/**
+ * Records the tab that owns playback and switches this tab between player
+ * and remote control accordingly
+ */
+const setOwner = (claim: OwnerClaim | null) => {
+  ownerClaim = claim;
+  ownerSeenAt = Date.now();
+  cancelScheduledClaim();
+
+  if (claim) {
+    resolveOwnerKnown?.();
+  }
+
+  const isRemoteControl = claim !== null && claim.tabId !== tabId;
+  if (usePlayerStore.getState().isRemoteControl !== isRemoteControl) {
+    debugLog(`playerSync: ${isRemoteControl ? 'Playback moved to another tab' : 'Playing in this tab'}`);
+    usePlayerStore.setState({ isRemoteControl });
+  }
+};
+
+const claimPlayback = () => {
+  const claim: OwnerClaim = { tabId, at: Date.now() };
+  setOwner(claim);
+  post({ type: 'claim', claim });
+};
+
+const scheduleClaim = (delay: number) => {
+  cancelScheduledClaim();
+  claimTimer = setTimeout(() => {
+    claimTimer = null;
+    if (!ownerClaim) {
+      claimPlayback();
+    }
+  }, delay);
+};
+
+/**
+ * The owner left or stopped answering: the music stops, and one of the
+ * remaining tabs takes over, paused
+ */
+const handleOwnerGone = () => {
+  ownerClaim = null;
+  applyRemoteState({ isPlaying: false });
+  scheduleClaim(Math.random() * MAX_CLAIM_DELAY_MS);
+};
+
+/**
+ * Runs on an interval: the owner sends a heartbeat, the other tabs check it
+ */
+const checkOwner = () => {
+  if (isOwner()) {
+    post({ type: 'heartbeat', tabId });
+  } else if (ownerClaim && Date.now() - ownerSeenAt > OWNER_TIMEOUT_MS) {
+    debugLog('playerSync: The playing tab stopped answering');
+    handleOwnerGone();
+  }
+};
+
+const handleMessage = (event: MessageEvent<SyncMessage>) => {
+  const message = event.data;
+  const senderId = message.type === 'claim' ? message.claim.tabId : message.tabId;
+
+  if (senderId === ownerClaim?.tabId) {
+    ownerSeenAt = Date.now();
+  }
+
+  switch (message.type) {
+    case 'hello':
+      // Only the owner answers, so the new tab picks up the state that is actually playing
+      if (isOwner() && ownerClaim) {
+        post({ type: 'claim', claim: ownerClaim });
+        post({ type: 'state', tabId, patch: getSyncedState(usePlayerStore.getState()) });
+      }
+      break;
+
+    case 'claim':
+      if (isNewerClaim(message.claim, ownerClaim)) {
+        setOwner(message.claim);
+      }
+      break;
+
+    case 'state':
+      applyRemoteState(message.patch);
+      break;
+
+    case 'leave':
+      if (ownerClaim?.tabId === message.tabId) {
+        handleOwnerGone();
+      }
+      break;
+
+    case 'heartbeat':
+      // Only keeps the owner known to be alive, which is recorded above
+      break;
+  }
+};
+
+const handlePageHide = () => {
+  if (isOwner()) {
+    post({ type: 'leave', tabId });
+  }
+};
+
+/**
+ * A page restored from the back/forward cache has missed everything since it
+ * left, so it joins again like a new tab
+ */
+const handlePageShow = (event: PageTransitionEvent) => {
+  if (event.persisted) {
+    applyRemoteState({ isPlaying: false });
+    setOwner(null);
+    post({ type: 'hello', tabId });
+    scheduleClaim(OWNER_REPLY_TIMEOUT_MS);
+  }
+};
+
+/**
+ * Service that keeps a single player across browser tabs
+ *
+ * Exactly one tab owns playback and drives the audio elements. Every other
+ * tab mirrors the player state and acts as a remote control: changes made in
+ * any tab are sent to all the others, so skipping or seeking in a remote tab
+ * is carried out by the owner. Any tab can take over playback, and the
+ * previous owner stops its audio. Without BroadcastChannel support every
+ * tab plays on its own, as before.
+ */
+export const playerSyncService = {
+
+  /**
+   * Joins the other open tabs, becoming the owner if no other tab answers
+   */
+  start: () => {
+    if (typeof BroadcastChannel === 'undefined') {
+      // Every tab plays on its own
+      resolveOwnerKnown?.();
+      return;
+    }
+    if (channel) return;
+
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = handleMessage;
+    unsubscribe = usePlayerStore.subscribe(broadcastChanges);
+    window.addEventListener('pagehide', handlePageHide);
+    window.addEventListener('pageshow', handlePageShow);
+    heartbeatTimer = setInterval(checkOwner, HEARTBEAT_INTERVAL_MS);
+
+    // A remount keeps the ownership this tab already knows about
+    if (!ownerClaim) {
+      post({ type: 'hello', tabId });
+      scheduleClaim(OWNER_REPLY_TIMEOUT_MS);
+    }
+  },
+
+  /**
+   * Stops exchanging state with the other tabs
+   */
+  stop: () => {
+    cancelScheduledClaim();
+
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+
+    if (unsubscribe) {
+      unsubscribe();
+      unsubscribe = null;
+    }
+
+    if (channel) {
+      channel.close();
+      channel = null;
+      window.removeEventListener('pagehide', handlePageHide);
+      window.removeEventListener('pageshow', handlePageShow);
+    }
+  },
+
+  /**
+   * Resolves once this tab knows whether it owns playback, after the other
+   * tabs had the chance to answer; isRemoteControl is then up to date
+   */
+  whenOwnerKnown: (): Promise<void> => ownerKnown,
+
+  /**
+   * Moves playback to this tab, continuing from the shared position
+   */
+  takeOver: () => {
+    if (!channel || isOwner()) return;
+
+    debugLog('playerSync: Taking over playback');
+    claimPlayback();
+  }
+};
+
+export default playerSyncService;
@@ -1,13 +1,21 @@
-import { PlaylistDto, ApiResponse } from '../types';
+import { PlaylistDto, SongDto, ApiResponse } from '../types';
 import api from './api';
 
+/**
+ * Outcome of adding several songs to a playlist
+ */
+export interface AddSongsResult {
+  added: SongDto[];
+  failed: SongDto[];
+}
+
 /**
  * Service for handling all playlist-related API operations
  * 
  * This service encapsulates interactions with the playlist endpoints, providing
  * methods for:
  * - Retrieving, creating, updating, and deleting playlists
- * - Managing playlist contents (adding/removing songs)
+ * - Managing playlist contents (adding/removing songs, one or many at a time)
  * - Fetching user-specific playlists
  */
 export const playlistService = {
@@ -112,6 +120,40 @@ export const playlistService = {
     }
   },
 
+  /**
+   * Adds songs to a playlist one at a time, so they keep their order
+   * 
+   * A song that cannot be added does not stop the others; it is reported in
+   * the result instead.
+   * 
+   * @param {number} playlistId - Playlist to add the songs to
+   * @param {SongDto[]} songs - Songs to add, in order
+   * @param {Function} onProgress - Called after each song with the number of songs handled so far
+   * @returns {Promise<AddSongsResult>} The songs that were added and the songs that failed
+   */
+  addSongsToPlaylist: async (
+    playlistId: number,
+    songs: SongDto[],
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<AddSongsResult> => {
+    const result: AddSongsResult = { added: [], failed: [] };
+
+    for (const song of songs) {
+      const response = song.id !== undefined
+        ? await playlistService.addSongToPlaylist(playlistId, song.id)
+        : null;
+
+      if (response && !response.error) {
+        result.added.push(song);
+      } else {
+        result.failed.push(song);
+      }
+      onProgress?.(result.added.length + result.failed.length, songs.length);
+    }
+
+    return result;
+  },
+
   removeSongFromPlaylist: async (playlistId: number, songId: number): Promise<ApiResponse<PlaylistDto>> => {
     try {
       const response = await api.delete(`/playlists/${playlistId}/songs/${songId}`);
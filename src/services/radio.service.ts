@@ -0,0 +1,102 @@
+import { SongDto } from '../types';
+import { songService } from './song.service';
+
+/**
+ * What a radio pick is based on, for the songs that keep playing after the queue
+ */
+interface RadioSeed {
+  /** Songs the picks should resemble, most important first */
+  songs: SongDto[];
+  /** Songs that must not be picked, such as recently played ones */
+  excludeIds: Set<number>;
+  userId: number | null;
+  limit: number;
+}
+
+// How long the song catalog and favorites are reused before they are fetched again
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Weights of the reasons a song resembles the seed
+const SAME_ARTIST_SCORE = 3;
+const SAME_GENRE_SCORE = 2;
+const FAVORITE_SCORE = 1;
+
+let catalogCache: { songs: SongDto[]; loadedAt: number } | null = null;
+let favoritesCache: { userId: number; songs: SongDto[]; loadedAt: number } | null = null;
+
+const isFresh = (loadedAt: number) => Date.now() - loadedAt < CACHE_TTL_MS;
+
+const loadCatalog = async (): Promise<SongDto[]> => {
+  if (catalogCache && isFresh(catalogCache.loadedAt)) return catalogCache.songs;
+
+  const response = await songService.getAllSongs();
+  if (!response.data) return catalogCache?.songs ?? [];
+
+  catalogCache = { songs: response.data, loadedAt: Date.now() };
+  return response.data;
+};
+
+const loadFavorites = async (userId: number | null): Promise<SongDto[]> => {
+  if (userId === null) return [];
+  if (favoritesCache?.userId === userId && isFresh(favoritesCache.loadedAt)) return favoritesCache.songs;
+
+  const response = await songService.getFavorites(userId);
+  if (!response.data) return [];
+
+  favoritesCache = { userId, songs: response.data, loadedAt: Date.now() };
+  return response.data;
+};
+
+/**
+ * Scores how much a candidate resembles the seed songs
+ */
+const scoreCandidate = (candidate: SongDto, seedSongs: SongDto[], favoriteIds: Set<number>): number => {
+  const genre = candidate.genre?.toLowerCase();
+  const sharesArtist = candidate.artistId !== undefined && seedSongs.some(song => song.artistId === candidate.artistId);
+  const sharesGenre = !!genre && seedSongs.some(song => song.genre?.toLowerCase() === genre);
+  const isFavorite = candidate.id !== undefined && favoriteIds.has(candidate.id);
+
+  return (sharesArtist ? SAME_ARTIST_SCORE : 0) +
+    (sharesGenre ? SAME_GENRE_SCORE : 0) +
+    (isFavorite ? FAVORITE_SCORE : 0);
+};
+
+/**
+ * Service that picks songs to play once the queue runs out
+ *
+ * Candidates are songs by the same artists or in the same genres as the seed
+ * songs, and the user's favorites. Matching both artist and genre ranks a
+ * song higher, and songs with the same score are picked in random order so
+ * every radio session sounds a little different.
+ */
+export const radioService = {
+
+  /**
+   * Picks songs similar to the seed songs
+   *
+   * @returns {Promise<SongDto[]>} Up to `limit` songs, best matches first; empty when nothing matches
+   */
+  getSimilarSongs: async ({ songs: seedSongs, excludeIds, userId, limit }: RadioSeed): Promise<SongDto[]> => {
+    const [catalog, favorites] = await Promise.all([loadCatalog(), loadFavorites(userId)]);
+    const favoriteIds = new Set(favorites.map(song => song.id).filter((id): id is number => id !== undefined));
+
+    // Favorites may not be part of the catalog answer, so both are considered
+    const candidates = new Map<number, SongDto>();
+    [...catalog, ...favorites].forEach(song => {
+      if (song.id !== undefined && !excludeIds.has(song.id) && !candidates.has(song.id)) {
+        candidates.set(song.id, song);
+      }
+    });
+
+    return Array.from(candidates.values())
+      .map(song => ({ song, score: scoreCandidate(song, seedSongs, favoriteIds) }))
+      .filter(({ score }) => score > 0)
+      // Scores are whole numbers, so the random part only reorders songs with the same score
+      .map(({ song, score }) => ({ song, score: score + Math.random() }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ song }) => song);
+  }
+};
+
+export default radioService;
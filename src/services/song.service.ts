@@ -8,7 +8,6 @@ import api from './api';
  * providing methods for:
  * - Retrieving, creating, updating, and deleting songs
  * - Searching for songs
- * - Managing song files and streaming
  * - Handling user favorites
  */
 export const songService = {
@@ -136,40 +135,6 @@ export const songService = {
     }
   },
 
-  getSongFilePath: async (id: number): Promise<string> => {
-    try {
-      if (id <= 7) {
-        const songMappings: Record<number, string> = {
-          1: 'just-dippin_snoop-dogg.mp3',
-          2: 'mercy_kanye-west.mp3',
-          3: 'no-vaseline_ice-cube.mp3',
-          4: 'still-dre_dr-dre.mp3',
-          5: 'rap-god_eminem.mp3',
-          6: 'ny-state-of-mind_nas.mp3',
-          7: 'when-i-b-on-the-mic_rakim.mp3'
-        };
-        return songMappings[id] || `song_${id}.mp3`;
-      }
-      
-      const response = await api.get(`/songs/${id}`);
-      const songData = response.data;
-      
-      if (songData && songData.filePath) {
-        const filename = songData.filePath.split('/').pop();
-        return filename;
-      }
-      
-      return `song_${id}.mp3`;
-    } catch (error: any) {
-      return `song_${id}.mp3`;
-    }
-  },
-
-  getStreamUrl: async (id: number): Promise<string> => {
-    const filePath = await songService.getSongFilePath(id);
-    return `${api.defaults.baseURL}/files/${filePath}`;
-  },
-
   getFavorites: async (userId: number): Promise<ApiResponse<SongDto[]>> => {
     try {
       const response = await api.get(`/users/${userId}/favorites`);
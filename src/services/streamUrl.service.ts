@@ -0,0 +1,180 @@
+import { SongDto } from '../types';
+import api from './api';
+import config from '../config';
+import { readStorage, writeStorage } from '../utils/storage';
+import { debugLog } from '../utils/logger';
+
+/**
+ * A stream URL and when it stops working
+ */
+interface ResolvedStreamUrl {
+  url: string;
+  /** Epoch milliseconds, or null for URLs that do not expire */
+  expiresAt: number | null;
+}
+
+/**
+ * Answer of the signing endpoint
+ */
+interface SignedStreamUrlResponse {
+  url: string;
+  /** ISO date or epoch milliseconds */
+  expiresAt: string | number;
+}
+
+/**
+ * Resolver state that is saved between visits
+ */
+interface PersistedStreamUrls {
+  urls: Record<string, ResolvedStreamUrl>;
+  filePaths: Record<number, string>;
+}
+
+const STORAGE_KEY = 'groovy.streamUrls';
+// Only the most recently resolved entries are kept in local storage
+const MAX_PERSISTED_ENTRIES = 500;
+// Signed URLs are refreshed this long before they expire, so a song started just before still loads
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const saved = readStorage<Partial<PersistedStreamUrls>>(STORAGE_KEY, {});
+
+const urlCache = new Map<string, ResolvedStreamUrl>(Object.entries(saved.urls || {}));
+const filePathCache = new Map<number, string>(
+  Object.entries(saved.filePaths || {}).map(([songId, filePath]) => [Number(songId), filePath])
+);
+const pendingUrls = new Map<string, Promise<ResolvedStreamUrl>>();
+
+/**
+ * Keeps the newest entries of a map, which holds its entries in insertion order
+ */
+const newestEntries = <K, V>(cache: Map<K, V>): [K, V][] => {
+  return Array.from(cache.entries()).slice(-MAX_PERSISTED_ENTRIES);
+};
+
+const persist = () => {
+  writeStorage<PersistedStreamUrls>(STORAGE_KEY, {
+    urls: Object.fromEntries(newestEntries(urlCache)),
+    filePaths: Object.fromEntries(newestEntries(filePathCache))
+  });
+};
+
+const isFresh = (resolved: ResolvedStreamUrl): boolean => {
+  return resolved.expiresAt === null || resolved.expiresAt - EXPIRY_MARGIN_MS > Date.now();
+};
+
+/**
+ * Files are served by name from the files endpoint, whatever directory the
+ * song's file path points into
+ */
+const getFileName = (filePath: string): string => filePath.split('/').pop() || filePath;
+
+const parseExpiry = (expiresAt: string | number): number | null => {
+  const time = typeof expiresAt === 'number' ? expiresAt : Date.parse(expiresAt);
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * Builds the URL of a file, asking the signing endpoint for it when one is configured
+ */
+const requestStreamUrl = async (filePath: string): Promise<ResolvedStreamUrl> => {
+  if (!config.STREAM_SIGNING_PATH) {
+    return { url: `${api.defaults.baseURL}/files/${getFileName(filePath)}`, expiresAt: null };
+  }
+
+  const response = await api.get<SignedStreamUrlResponse>(config.STREAM_SIGNING_PATH, {
+    params: { filePath }
+  });
+  return { url: response.data.url, expiresAt: parseExpiry(response.data.expiresAt) };
+};
+
+/**
+ * Finds the file path of a song, only asking the server when the song
+ * object does not carry it and it is not cached yet
+ *
+ * @throws When the server cannot be reached, so the caller can retry
+ */
+const resolveFilePath = async (song: SongDto | number): Promise<string> => {
+  const songId = typeof song === 'number' ? song : song.id;
+
+  if (typeof song !== 'number' && song.filePath) {
+    if (songId !== undefined && filePathCache.get(songId) !== song.filePath) {
+      filePathCache.delete(songId);
+      filePathCache.set(songId, song.filePath);
+      persist();
+    }
+    return song.filePath;
+  }
+
+  if (songId === undefined) {
+    throw new Error('Song has neither an id nor a file path');
+  }
+
+  const cached = filePathCache.get(songId);
+  if (cached) return cached;
+
+  const response = await api.get<SongDto>(`/songs/${songId}`);
+  const filePath = response.data?.filePath;
+
+  // Without a file path the conventional name is tried, which the server answers with a 404 if it is missing
+  if (!filePath) return `song_${songId}.mp3`;
+
+  filePathCache.set(songId, filePath);
+  persist();
+  return filePath;
+};
+
+/**
+ * Service that turns songs into stream URLs
+ *
+ * This is the only place stream URLs are built. URLs are cached in memory
+ * and in local storage by the song's file path. When a signing endpoint is
+ * configured (VITE_STREAM_SIGNING_PATH), URLs are requested from it and
+ * requested again shortly before they expire; otherwise they point at the
+ * public files endpoint and never expire.
+ */
+export const streamUrlService = {
+
+  /**
+   * Returns a URL the song can be streamed from
+   *
+   * @param {SongDto | number} song - The song, or its id when only the id is known
+   * @param {boolean} forceRefresh - Ignore a cached URL, for example after the stream was refused
+   * @returns {Promise<string>} The stream URL
+   * @throws When the song's file path or signed URL cannot be fetched
+   */
+  getStreamUrl: async (song: SongDto | number, forceRefresh: boolean = false): Promise<string> => {
+    const filePath = await resolveFilePath(song);
+
+    const cached = urlCache.get(filePath);
+    if (cached && !forceRefresh && isFresh(cached)) {
+      return cached.url;
+    }
+
+    let pending = pendingUrls.get(filePath);
+    if (!pending) {
+      pending = requestStreamUrl(filePath)
+        .then(resolved => {
+          urlCache.delete(filePath);
+          urlCache.set(filePath, resolved);
+          persist();
+          return resolved;
+        })
+        .finally(() => pendingUrls.delete(filePath));
+      pendingUrls.set(filePath, pending);
+    }
+
+    return (await pending).url;
+  },
+
+  /**
+   * Forgets every cached URL and file path
+   */
+  clear: () => {
+    debugLog('streamUrl: Clearing cached stream URLs');
+    urlCache.clear();
+    filePathCache.clear();
+    persist();
+  }
+};
+
+export default streamUrlService;
@@ -0,0 +1,94 @@
+import { audioAnalysisService } from './audioAnalysis.service';
+import { WAVEFORM_PEAK_COUNT } from '../utils/waveform';
+import { idbGet, idbPut, IDB_STORES } from '../utils/indexedDb';
+
+/**
+ * Cached waveform of one song
+ */
+interface WaveformRecord {
+  peakCount: number;
+  peaks: number[];
+}
+
+const memoryCache = new Map<number, number[]>();
+const pendingWaveforms = new Map<number, Promise<number[] | null>>();
+
+const storePeaks = (songId: number, peaks: number[]): Promise<void> =>
+  idbPut<WaveformRecord>(IDB_STORES.waveforms, songId, { peakCount: WAVEFORM_PEAK_COUNT, peaks });
+
+const loadWaveform = async (songId: number, duration: number): Promise<number[] | null> => {
+  const stored = await idbGet<WaveformRecord>(IDB_STORES.waveforms, songId);
+  if (stored && stored.peakCount === WAVEFORM_PEAK_COUNT && Array.isArray(stored.peaks)) {
+    return stored.peaks;
+  }
+
+  const analysis = await audioAnalysisService.analyzeSong(songId, duration);
+  if (!analysis) return null;
+
+  await storePeaks(songId, analysis.peaks);
+  return analysis.peaks;
+};
+
+/**
+ * Service for the waveform data drawn by the waveform seek bar
+ *
+ * Peaks are computed by decoding the song in the browser the first time it
+ * is shown, together with its loudness, then cached in memory and in
+ * IndexedDB by song id. Peaks computed while measuring loudness are saved
+ * the same way, so the seek bar does not decode the song again. Songs too
+ * long to decode have no waveform.
+ */
+export const waveformService = {
+
+  /**
+   * Returns peaks that are already in memory, without loading anything
+   */
+  getCachedPeaks: (songId: number): number[] | null => {
+    return memoryCache.get(songId) || null;
+  },
+
+  /**
+   * Caches peaks that were computed elsewhere, such as during loudness analysis
+   */
+  savePeaks: (songId: number, peaks: number[]): void => {
+    if (memoryCache.has(songId)) return;
+
+    memoryCache.set(songId, peaks);
+    storePeaks(songId, peaks);
+  },
+
+  /**
+   * Returns the waveform peaks of a song, computing them if needed
+   *
+   * @param {number} songId - The song to draw
+   * @param {number} duration - The song's duration in seconds, or 0 if not known
+   * @returns {Promise<number[] | null>} Peaks between 0 and 1, or null if the song could not be decoded
+   */
+  getPeaks: (songId: number, duration: number): Promise<number[] | null> => {
+    const cached = memoryCache.get(songId);
+    if (cached) return Promise.resolve(cached);
+
+    const pending = pendingWaveforms.get(songId);
+    if (pending) return pending;
+
+    const request = loadWaveform(songId, duration)
+      .then(peaks => {
+        if (peaks) {
+          memoryCache.set(songId, peaks);
+        }
+        return peaks;
+      })
+      .catch(error => {
+        console.error(`waveform: Could not load waveform for song ${songId}`, error);
+        return null;
+      })
+      .finally(() => {
+        pendingWaveforms.delete(songId);
+      });
+
+    pendingWaveforms.set(songId, request);
+    return request;
+  }
+};
+
+export default waveformService;
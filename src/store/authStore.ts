@@ -3,6 +3,9 @@ import { UserDto } from '../types';
 import { authService } from '../services/auth.service';
 import { userService } from '../services/user.service';
 import { usePlayerStore } from './playerStore';
+import { playerSessionService } from '../services/playerSession.service';
+import { streamUrlService } from '../services/streamUrl.service';
+import { playbackEventsService } from '../services/playbackEvents.service';
 
 /**
  * Interface defining the authentication state and actions
@@ -11,6 +14,7 @@ import { usePlayerStore } from './playerStore';
  * - User information and authentication status
  * - Login and registration processes
  * - Session management and validation
+ * - Binding the persisted player session to the signed-in user
  * - Loading states and error handling
  */
 interface AuthState {
@@ -26,6 +30,21 @@ interface AuthState {
   clearError: () => void;
 }
 
+/**
+ * Stops the player and forgets what belongs to the signed-in account
+ *
+ * The session is detached first so the previous user's saved session is left
+ * untouched, and nothing of theirs stays in memory for the next user.
+ */
+const resetPlayerForSignOut = () => {
+  playerSessionService.detach();
+  usePlayerStore.getState().stopAndClosePlayer();
+  // Only after stopping, so the position the player stopped at is still saved for the user
+  usePlayerStore.getState().loadUserData(null);
+  // Signed stream URLs may be tied to the account that requested them
+  streamUrlService.clear();
+};
+
 export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
   isAuthenticated: authService.isAuthenticated(),
@@ -42,11 +61,16 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         authService.setToken(token);
 
         setTimeout(() => {
+          const user = response.data?.user || null;
           set({ 
-            user: response.data?.user || null,
+            user,
             isAuthenticated: true,
             isLoading: false
           });
+          
+          if (user?.id !== undefined) {
+            playerSessionService.attach(user.id);
+          }
         }, 100);
         
         return true;
@@ -76,11 +100,16 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         authService.setToken(token);
         
         setTimeout(() => {
+          const user = response.data?.user || null;
           set({ 
-            user: response.data?.user || null,
+            user,
             isAuthenticated: true,
             isLoading: false
           });
+          
+          if (user?.id !== undefined) {
+            playerSessionService.attach(user.id);
+          }
         }, 100);
         
         return true;
@@ -101,8 +130,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   },
 
   logout: () => {
-    const stopPlayer = usePlayerStore.getState().stopAndClosePlayer;
-    stopPlayer();
+    resetPlayerForSignOut();
+    // Starts sending the user's last events, including the pause above, while their token is still there
+    playbackEventsService.flush();
     
     authService.logout();
     set({ 
@@ -135,8 +165,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       
       if (response.data) {
         if (currentUserId !== undefined && response.data.id !== currentUserId) {
-          const stopPlayer = usePlayerStore.getState().stopAndClosePlayer;
-          stopPlayer();
+          resetPlayerForSignOut();
         }
         
         set({ 
@@ -144,7 +173,12 @@ export const useAuthStore = create<AuthState>((set, get) => ({
           isAuthenticated: true,
           isLoading: false
         });
+        
+        if (response.data.id !== undefined) {
+          playerSessionService.attach(response.data.id);
+        }
       } else {
+        resetPlayerForSignOut();
         authService.logout();
         set({ 
           user: null,
@@ -154,6 +188,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         });
       }
     } catch (error) {
+      resetPlayerForSignOut();
       authService.logout();
       set({ 
         user: null,
@@ -0,0 +1,185 @@
+import { create } from 'zustand';
+import { readStorage, writeStorage, watchStorage } from '../utils/storage';
+import { debugLog } from '../utils/logger';
+
+/**
+ * Center frequencies of the ten equalizer bands, in Hz
+ */
+export const EQUALIZER_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+export const MIN_BAND_GAIN = -12;
+export const MAX_BAND_GAIN = 12;
+
+export interface EqualizerPreset {
+  id: string;
+  name: string;
+  gains: number[];
+}
+
+export const FLAT_PRESET_ID = 'flat';
+
+export const BUILT_IN_PRESETS: EqualizerPreset[] = [
+  { id: FLAT_PRESET_ID, name: 'Flat', gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { id: 'bass-boost', name: 'Bass Boost', gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { id: 'vocal', name: 'Vocal', gains: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1] },
+  { id: 'treble', name: 'Treble', gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+  { id: 'loudness', name: 'Loudness', gains: [5, 4, 2, 0, -1, -1, 0, 2, 4, 5] }
+];
+
+/**
+ * Equalizer settings that are saved per user
+ */
+interface EqualizerSettings {
+  isEnabled: boolean;
+  gains: number[];
+  presetId: string | null;
+  customPresets: EqualizerPreset[];
+}
+
+const DEFAULT_SETTINGS: EqualizerSettings = {
+  isEnabled: true,
+  gains: BUILT_IN_PRESETS[0].gains,
+  presetId: FLAT_PRESET_ID,
+  customPresets: []
+};
+
+const storageKey = (userId: number | null) => `groovy.equalizer.${userId ?? 'guest'}`;
+
+const clampGain = (gain: number) => Math.max(MIN_BAND_GAIN, Math.min(MAX_BAND_GAIN, gain));
+
+/**
+ * Makes sure stored gains have one valid value per band
+ */
+const normalizeGains = (gains: unknown): number[] => {
+  return EQUALIZER_FREQUENCIES.map((_, index) => {
+    const gain = Array.isArray(gains) ? Number(gains[index]) : 0;
+    return isFinite(gain) ? clampGain(gain) : 0;
+  });
+};
+
+const loadSettings = (userId: number | null): EqualizerSettings => {
+  const saved = readStorage<Partial<EqualizerSettings>>(storageKey(userId), {});
+
+  return {
+    isEnabled: saved.isEnabled ?? DEFAULT_SETTINGS.isEnabled,
+    gains: normalizeGains(saved.gains ?? DEFAULT_SETTINGS.gains),
+    presetId: saved.presetId !== undefined ? saved.presetId : DEFAULT_SETTINGS.presetId,
+    customPresets: Array.isArray(saved.customPresets)
+      ? saved.customPresets.map(preset => ({ ...preset, gains: normalizeGains(preset.gains) }))
+      : []
+  };
+};
+
+/**
+ * Returns true when every band is at 0 dB, in which case the equalizer has no effect
+ */
+export const isFlat = (gains: number[]): boolean => {
+  return gains.every(gain => gain === 0);
+};
+
+/**
+ * Interface defining the equalizer state and actions
+ *
+ * This store manages:
+ * - The gain of each of the ten bands and whether the equalizer is on
+ * - Built-in and user-saved presets
+ * - Persistence of the settings per user
+ */
+interface EqualizerState extends EqualizerSettings {
+  userId: number | null;
+
+  loadSettings: (userId: number | null) => void;
+  setEnabled: (isEnabled: boolean) => void;
+  setBandGain: (index: number, gain: number) => void;
+  applyPreset: (presetId: string) => void;
+  saveCustomPreset: (name: string) => void;
+  deleteCustomPreset: (presetId: string) => void;
+  getPresets: () => EqualizerPreset[];
+}
+
+export const useEqualizerStore = create<EqualizerState>((set, get) => {
+  /**
+   * Updates the state and saves the persisted settings for the current user
+   */
+  const update = (changes: Partial<EqualizerSettings>) => {
+    const { userId, isEnabled, gains, presetId, customPresets } = { ...get(), ...changes };
+    writeStorage<EqualizerSettings>(storageKey(userId), { isEnabled, gains, presetId, customPresets });
+    set(changes);
+  };
+
+  return {
+    userId: null,
+    ...loadSettings(null),
+
+    loadSettings: (userId: number | null) => {
+      set({ userId, ...loadSettings(userId) });
+    },
+
+    setEnabled: (isEnabled: boolean) => {
+      debugLog(`equalizerStore: Equalizer ${isEnabled ? 'enabled' : 'disabled'}`);
+      update({ isEnabled });
+    },
+
+    setBandGain: (index: number, gain: number) => {
+      if (index < 0 || index >= EQUALIZER_FREQUENCIES.length) return;
+
+      const gains = [...get().gains];
+      gains[index] = clampGain(gain);
+      update({ gains, presetId: null });
+    },
+
+    applyPreset: (presetId: string) => {
+      const preset = get().getPresets().find(p => p.id === presetId);
+      if (!preset) return;
+
+      debugLog(`equalizerStore: Applying preset ${preset.name}`);
+      update({ gains: [...preset.gains], presetId: preset.id, isEnabled: true });
+    },
+
+    /**
+     * Saves the current band gains as a custom preset, replacing an existing
+     * custom preset with the same name
+     */
+    saveCustomPreset: (name: string) => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+
+      const { gains, customPresets } = get();
+      const existing = customPresets.find(p => p.name.toLowerCase() === trimmed.toLowerCase());
+      const preset: EqualizerPreset = {
+        id: existing?.id || `custom-${Date.now()}`,
+        name: trimmed,
+        gains: [...gains]
+      };
+
+      debugLog(`equalizerStore: Saving preset ${trimmed}`);
+      update({
+        customPresets: existing
+          ? customPresets.map(p => (p.id === existing.id ? preset : p))
+          : [...customPresets, preset],
+        presetId: preset.id
+      });
+    },
+
+    deleteCustomPreset: (presetId: string) => {
+      const { customPresets, presetId: activePresetId } = get();
+      update({
+        customPresets: customPresets.filter(p => p.id !== presetId),
+        presetId: activePresetId === presetId ? null : activePresetId
+      });
+    },
+
+    getPresets: () => {
+      return [...BUILT_IN_PRESETS, ...get().customPresets];
+    }
+  };
+});
+
+// Settings changed in another tab are picked up, so saving here does not undo them
+watchStorage(
+  () => storageKey(useEqualizerStore.getState().userId),
+  () => {
+    const { userId, loadSettings } = useEqualizerStore.getState();
+    loadSettings(userId);
+  }
+);
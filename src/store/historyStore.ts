@@ -0,0 +1,113 @@
+import { create } from 'zustand';
+import { SongDto, PlaySource, ListeningHistoryEntry } from '../types';
+import { readStorage, writeStorage, watchStorage } from '../utils/storage';
+import { debugLog } from '../utils/logger';
+
+/**
+ * A play is logged once the listener has heard this many seconds of a song,
+ * or this share of it for songs shorter than twice the threshold
+ */
+export const PLAY_THRESHOLD_SECONDS = 30;
+export const PLAY_THRESHOLD_RATIO = 0.5;
+
+const MAX_HISTORY_ENTRIES = 500;
+
+const storageKey = (userId: number | null) => `groovy.history.${userId ?? 'guest'}`;
+
+/**
+ * Returns the listening time after which a song of the given length counts as played
+ */
+export const getPlayThreshold = (duration: number): number => {
+  if (!duration || !isFinite(duration)) return PLAY_THRESHOLD_SECONDS;
+  return Math.min(PLAY_THRESHOLD_SECONDS, duration * PLAY_THRESHOLD_RATIO);
+};
+
+/**
+ * Interface defining the listening history state and actions
+ *
+ * This store manages:
+ * - The list of logged plays for the current user, newest first
+ * - Recording, removing and clearing plays
+ * - Persistence of the history per user
+ */
+interface HistoryState {
+  userId: number | null;
+  entries: ListeningHistoryEntry[];
+
+  loadHistory: (userId: number | null) => void;
+  recordPlay: (song: SongDto, source: PlaySource | null) => void;
+  removeEntry: (entryId: string) => void;
+  clearHistory: () => void;
+  getRecentSongs: (limit: number) => SongDto[];
+}
+
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+  userId: null,
+  entries: readStorage<ListeningHistoryEntry[]>(storageKey(null), []),
+
+  loadHistory: (userId: number | null) => {
+    set({
+      userId,
+      entries: readStorage<ListeningHistoryEntry[]>(storageKey(userId), [])
+    });
+  },
+
+  recordPlay: (song: SongDto, source: PlaySource | null) => {
+    const { entries, userId } = get();
+    const playedAt = new Date().toISOString();
+
+    const entry: ListeningHistoryEntry = {
+      id: `${Date.now()}-${song.id ?? 'song'}`,
+      song,
+      playedAt,
+      source: source || { type: 'other' }
+    };
+
+    debugLog(`historyStore: Logged play: ${song.title}`);
+    const newEntries = [entry, ...entries].slice(0, MAX_HISTORY_ENTRIES);
+    writeStorage(storageKey(userId), newEntries);
+    set({ entries: newEntries });
+  },
+
+  removeEntry: (entryId: string) => {
+    const { entries, userId } = get();
+    const newEntries = entries.filter(entry => entry.id !== entryId);
+    writeStorage(storageKey(userId), newEntries);
+    set({ entries: newEntries });
+  },
+
+  clearHistory: () => {
+    const { userId } = get();
+    debugLog('historyStore: Clearing history');
+    writeStorage(storageKey(userId), []);
+    set({ entries: [] });
+  },
+
+  /**
+   * Returns the most recently played songs without duplicates, newest first
+   */
+  getRecentSongs: (limit: number) => {
+    const { entries } = get();
+    const seen = new Set<number | undefined>();
+    const songs: SongDto[] = [];
+
+    for (const entry of entries) {
+      if (songs.length >= limit) break;
+      if (seen.has(entry.song.id)) continue;
+
+      seen.add(entry.song.id);
+      songs.push(entry.song);
+    }
+
+    return songs;
+  }
+}));
+
+// Another tab may log or remove plays, and this tab's next write must not undo them
+watchStorage(
+  () => storageKey(useHistoryStore.getState().userId),
+  () => {
+    const { userId, loadHistory } = useHistoryStore.getState();
+    loadHistory(userId);
+  }
+);
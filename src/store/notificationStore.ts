@@ -0,0 +1,73 @@
+import { create } from 'zustand';
+
+export type NotificationType = 'info' | 'success' | 'warning' | 'error';
+
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface AppNotification {
+  id: number;
+  type: NotificationType;
+  message: string;
+  action?: NotificationAction;
+}
+
+const DEFAULT_DURATION_MS = 6000;
+const MAX_NOTIFICATIONS = 3;
+
+let nextNotificationId = 1;
+const dismissTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+const clearDismissTimer = (id: number) => {
+  const timer = dismissTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    dismissTimers.delete(id);
+  }
+};
+
+/**
+ * Interface defining the notification state and actions
+ *
+ * This store manages:
+ * - The short messages shown at the bottom of the screen, oldest first
+ * - Dismissing them by hand or after a delay
+ * - Replacing a message that is already shown instead of stacking a copy
+ */
+interface NotificationState {
+  notifications: AppNotification[];
+
+  notify: (notification: Omit<AppNotification, 'id'>, durationMs?: number) => number;
+  dismiss: (id: number) => void;
+}
+
+export const useNotificationStore = create<NotificationState>((set, get) => ({
+  notifications: [],
+
+  notify: (notification: Omit<AppNotification, 'id'>, durationMs: number = DEFAULT_DURATION_MS) => {
+    const id = nextNotificationId++;
+    const remaining = get().notifications.filter(existing => {
+      if (existing.message !== notification.message) return true;
+      clearDismissTimer(existing.id);
+      return false;
+    });
+
+    const dropped = remaining.slice(0, Math.max(0, remaining.length - MAX_NOTIFICATIONS + 1));
+    dropped.forEach(existing => clearDismissTimer(existing.id));
+
+    set({ notifications: [...remaining.slice(dropped.length), { ...notification, id }] });
+
+    // A duration of 0 keeps the notification until it is dismissed
+    if (durationMs > 0) {
+      dismissTimers.set(id, setTimeout(() => get().dismiss(id), durationMs));
+    }
+    return id;
+  },
+
+  dismiss: (id: number) => {
+    clearDismissTimer(id);
+    set({ notifications: get().notifications.filter(notification => notification.id !== id) });
+  }
+}));
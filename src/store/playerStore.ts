@@ -1,29 +1,214 @@
 import { create } from 'zustand';
-import { SongDto, PlaylistDto } from '../types';
+import { SongDto, PlaylistDto, PlaySource } from '../types';
+import { createShuffleSeed, nextShuffleSeed, restoreOriginalOrder, seededShuffle } from '../utils/shuffle';
+import { readStorage, writeStorage } from '../utils/storage';
+import { debugLog } from '../utils/logger';
+
+/**
+ * Repeat behaviour of the player
+ * - off: playback stops when the queue runs out
+ * - all: the current playlist or queue starts over when it runs out
+ * - one: the current song repeats when it ends
+ */
+export type RepeatMode = 'off' | 'all' | 'one';
+
+const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+export const MAX_CROSSFADE_SECONDS = 12;
+const CROSSFADE_STORAGE_KEY = 'groovy.crossfadeDuration';
+
+/**
+ * Volume normalization behaviour
+ * - off: tracks play at their original level
+ * - track: every track is brought to the same loudness
+ * - album: every album is brought to the same loudness, keeping the
+ *   differences between the songs on it
+ */
+export type NormalizationMode = 'off' | 'track' | 'album';
+
+const NORMALIZATION_STORAGE_KEY = 'groovy.normalizationMode';
+const MINI_PLAYER_WAVEFORM_STORAGE_KEY = 'groovy.miniPlayerWaveform';
+
+/**
+ * What the fullscreen player shows in place of the album artwork
+ */
+export type VisualizerMode = 'off' | 'bars' | 'circular' | 'oscilloscope';
+
+const VISUALIZER_STORAGE_KEY = 'groovy.visualizerMode';
+
+const AUTOPLAY_STORAGE_KEY = 'groovy.autoplay';
+
+// Songs whose stream the server no longer has, shared by every user of this browser
+const UNAVAILABLE_SONGS_STORAGE_KEY = 'groovy.unavailableSongs';
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+export const PLAYBACK_RATE_STEP = 0.05;
+
+/**
+ * Whether the playback rate is remembered for each song or shared by all songs
+ */
+export type PlaybackRateScope = 'global' | 'song';
+
+/**
+ * Playback speed preferences that are saved between visits
+ */
+interface PlaybackSpeedSettings {
+  scope: PlaybackRateScope;
+  globalRate: number;
+  songRates: Record<number, number>;
+  preservePitch: boolean;
+}
+
+const PLAYBACK_SPEED_STORAGE_KEY = 'groovy.playbackSpeed';
+
+const savedPlaybackSpeed = readStorage<Partial<PlaybackSpeedSettings>>(PLAYBACK_SPEED_STORAGE_KEY, {});
+
+/**
+ * Clamps a rate to the supported range and rounds it to the nearest step
+ */
+const normalizePlaybackRate = (rate: number): number => {
+  const clamped = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+  return Number((Math.round(clamped / PLAYBACK_RATE_STEP) * PLAYBACK_RATE_STEP).toFixed(2));
+};
+
+/**
+ * A–B loop points of a song, in seconds
+ *
+ * The segment repeats once both points are set; until B is set only A is shown.
+ */
+export interface AbLoop {
+  start: number;
+  end: number | null;
+}
+
+// Shorter loops could not be told apart from seeking, which snaps within a second
+export const MIN_LOOP_SECONDS = 1.5;
+// Loops and saved positions are kept per user, like the listening history
+const abLoopsStorageKey = (userId: number | null) => `groovy.abLoops.${userId ?? 'guest'}`;
+
+// Minimum track length, in minutes, for the position to be remembered; 0 turns it off
+export const RESUME_THRESHOLD_OPTIONS = [0, 10, 20, 30, 60];
+const DEFAULT_RESUME_THRESHOLD_MINUTES = 20;
+const RESUME_THRESHOLD_STORAGE_KEY = 'groovy.resumeThreshold';
+const resumePositionsStorageKey = (userId: number | null) => `groovy.resumePositions.${userId ?? 'guest'}`;
+
+/**
+ * When the sleep timer stops playback
+ * - duration: after a number of minutes
+ * - endOfTrack: when the current song ends
+ * - endOfContext: when the current album or playlist ends
+ */
+export type SleepTimerMode = 'duration' | 'endOfTrack' | 'endOfContext';
+
+export interface SleepTimer {
+  mode: SleepTimerMode;
+  /** Time the timer stops playback at in duration mode, in epoch milliseconds */
+  endsAt: number | null;
+}
+
+/**
+ * Playback fades out over this many seconds before the sleep timer stops it
+ */
+export const SLEEP_FADE_SECONDS = 30;
+const SLEEP_TICK_MS = 250;
+
+let sleepTimerInterval: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * A song that played earlier, with the source it was played from
+ */
+export interface PlayedTrack {
+  song: SongDto;
+  source: PlaySource | null;
+}
+
+// How many played songs "previous" can step back through
+const MAX_BACK_STACK_SIZE = 100;
+
+/**
+ * Determines whether the transition between two songs should be crossfaded
+ * 
+ * Consecutive tracks from the same album are never crossfaded, since albums
+ * are often mastered to flow from one track into the next.
+ */
+export const shouldCrossfade = (
+  current: SongDto | null,
+  upcoming: SongDto | undefined,
+  crossfadeDuration: number
+): boolean => {
+  if (crossfadeDuration <= 0 || !current || !upcoming) return false;
+  
+  return current.albumId === undefined || current.albumId !== upcoming.albumId;
+};
 
 /**
  * Interface defining the state and actions for the music player
  * 
  * This store manages the entire playback experience, including:
  * - Current song and playlist tracking
- * - Queue management
+ * - Queue management: the user's "Next up" list plays before the rest of
+ *   the album or playlist that is playing
+ * - A back-stack of the songs that played, which "previous" steps back through
+ * - Autoplay: similar songs that keep the music going once the queue runs out
  * - Playback state (playing/paused)
  * - Audio settings (volume, progress, duration)
+ * - Shuffle and repeat modes
+ * - Crossfade settings
+ * - Playback speed, per song or global
+ * - A–B loops, saved per song
+ * - Where long tracks were left, to resume them later
+ * - The sleep timer and its fade-out
+ * - Whether this tab plays the audio or remote-controls another tab
+ * - Songs whose stream is missing, which are skipped in queues
  * - Player UI state (visibility, fullscreen mode)
  */
 interface PlayerState {
   currentSong: SongDto | null;
   currentPlaylist: PlaylistDto | null;
   queue: SongDto[];
+  nextUp: SongDto[];
+  backStack: PlayedTrack[];
+  autoplayQueue: SongDto[];
+  playContext: SongDto[];
+  playSource: PlaySource | null;
+  currentSource: PlaySource | null;
+  repeatMode: RepeatMode;
+  isShuffled: boolean;
+  /** Shuffling originalQueue with this seed gives the order the songs play in */
+  shuffleSeed: number | null;
+  originalQueue: SongDto[];
+  crossfadeDuration: number;
+  autoplay: boolean;
+  normalizationMode: NormalizationMode;
+  showMiniPlayerWaveform: boolean;
+  visualizerMode: VisualizerMode;
+  playbackRateScope: PlaybackRateScope;
+  globalPlaybackRate: number;
+  songPlaybackRates: Record<number, number>;
+  preservePitch: boolean;
+  /** The user whose A–B loops and saved positions are loaded, null when signed out */
+  userId: number | null;
+  abLoops: Record<number, AbLoop>;
+  resumeThresholdMinutes: number;
+  resumePositions: Record<number, number>;
+  sleepTimer: SleepTimer | null;
+  sleepTimerRemaining: number | null;
+  sleepFadeLevel: number;
+  /** True while another browser tab owns playback and this tab only mirrors it */
+  isRemoteControl: boolean;
+  unavailableSongIds: Record<number, true>;
   isPlaying: boolean;
   volume: number;
   progress: number;
   duration: number;
+  volumeBeforeMute: number | null;
   isPlayerVisible: boolean;
   isFullscreen: boolean;
+  isQueueVisible: boolean;
   
-  playSong: (song: SongDto) => void;
-  playQueue: (songs: SongDto[], startIndex: number) => void;
+  playSong: (song: SongDto, source?: PlaySource, startAt?: number) => void;
+  playQueue: (songs: SongDto[], startIndex: number, source?: PlaySource) => void;
   playPlaylist: (playlist: PlaylistDto, startIndex?: number) => void;
   togglePlay: () => void;
   play: () => void;
@@ -32,67 +217,377 @@ interface PlayerState {
   previous: () => void;
   
   setVolume: (volume: number) => void;
+  toggleMute: () => void;
   setProgress: (progress: number) => void;
   setDuration: (duration: number) => void;
   
+  toggleShuffle: () => void;
+  setRepeatMode: (mode: RepeatMode) => void;
+  cycleRepeatMode: () => void;
+  setCrossfadeDuration: (seconds: number) => void;
+  setAutoplay: (enabled: boolean) => void;
+  setNormalizationMode: (mode: NormalizationMode) => void;
+  setShowMiniPlayerWaveform: (show: boolean) => void;
+  setVisualizerMode: (mode: VisualizerMode) => void;
+  setPlaybackRate: (rate: number) => void;
+  setPlaybackRateScope: (scope: PlaybackRateScope) => void;
+  setPreservePitch: (preservePitch: boolean) => void;
+
+  loadUserData: (userId: number | null) => void;
+  setLoopStart: (time?: number) => void;
+  setLoopEnd: (time?: number) => void;
+  clearLoop: () => void;
+
+  setResumeThreshold: (minutes: number) => void;
+  saveResumePosition: (songId: number, position: number) => void;
+  clearResumePosition: (songId: number) => void;
+  clearResumePositions: () => void;
+
+  startSleepTimer: (mode: SleepTimerMode, minutes?: number) => void;
+  extendSleepTimer: (minutes: number) => void;
+  cancelSleepTimer: () => void;
+
+  markSongUnavailable: (songId: number) => void;
+  markSongAvailable: (songId: number) => void;
+  
   addToQueue: (song: SongDto) => void;
+  playNext: (song: SongDto) => void;
   removeFromQueue: (index: number) => void;
+  removeFromNextUp: (index: number) => void;
   clearQueue: () => void;
+  clearNextUp: () => void;
+  addAutoplaySongs: (songs: SongDto[]) => void;
+  removeFromAutoplayQueue: (index: number) => void;
   updateQueueOrder: (newQueue: SongDto[]) => void;
+  updateNextUpOrder: (newNextUp: SongDto[]) => void;
   
   stopAndClosePlayer: () => void;
   togglePlayerVisibility: () => void;
   toggleFullscreen: () => void;
+  setQueueVisible: (isVisible: boolean) => void;
+  toggleQueueVisibility: () => void;
+}
+
+/**
+ * Identifies a song across copies of it, such as those restored from storage
+ * or received from another tab
+ */
+export const getSongKey = (song: SongDto): unknown => song.id ?? song;
+
+/**
+ * Builds the shuffle state for the songs after the one that is playing
+ * 
+ * The current song is left where it is; only the songs that follow it are
+ * shuffled. The original order is kept so shuffle can be turned off again
+ * without losing it, and together with the seed it reproduces the shuffled
+ * order, for example after a restore or in another tab.
+ */
+const buildShuffleState = (queue: SongDto[], seed: number = createShuffleSeed()) => {
+  return {
+    queue: seededShuffle(queue, seed),
+    shuffleSeed: seed,
+    originalQueue: [...queue]
+  };
+};
+
+/**
+ * Returns the rate a song plays at, taking the per-song or global preference into account
+ */
+export const getPlaybackRate = (
+  state: Pick<PlayerState, 'playbackRateScope' | 'globalPlaybackRate' | 'songPlaybackRates'>,
+  song: SongDto | null | undefined
+): number => {
+  if (state.playbackRateScope === 'song') {
+    return song?.id !== undefined ? state.songPlaybackRates[song.id] ?? 1 : 1;
+  }
+  return state.globalPlaybackRate;
+};
+
+/**
+ * Saves the playback speed preferences from the given state
+ */
+const savePlaybackSpeed = (
+  state: Pick<PlayerState, 'playbackRateScope' | 'globalPlaybackRate' | 'songPlaybackRates' | 'preservePitch'>
+) => {
+  writeStorage<PlaybackSpeedSettings>(PLAYBACK_SPEED_STORAGE_KEY, {
+    scope: state.playbackRateScope,
+    globalRate: state.globalPlaybackRate,
+    songRates: state.songPlaybackRates,
+    preservePitch: state.preservePitch
+  });
+};
+
+/**
+ * Adds the song that is playing to the back-stack, as another song replaces it
+ */
+const pushBackStack = (state: PlayerState, incoming: SongDto): PlayedTrack[] => {
+  if (!state.currentSong || state.currentSong.id === incoming.id) return state.backStack;
+  
+  return [...state.backStack, { song: state.currentSong, source: state.currentSource }].slice(-MAX_BACK_STACK_SIZE);
+};
+
+/**
+ * Returns the current song's loop once both of its points are set
+ */
+export const getActiveLoop = (
+  state: Pick<PlayerState, 'abLoops' | 'currentSong'>
+): { start: number; end: number } | null => {
+  const songId = state.currentSong?.id;
+  const loop = songId !== undefined ? state.abLoops[songId] : undefined;
+
+  return loop && loop.end !== null ? { start: loop.start, end: loop.end } : null;
+};
+
+/**
+ * Determines whether a song is long enough to remember where it was left
+ */
+export const isLongTrack = (
+  state: Pick<PlayerState, 'resumeThresholdMinutes'>,
+  song: SongDto | null
+): boolean => {
+  return !!song && state.resumeThresholdMinutes > 0 && song.duration >= state.resumeThresholdMinutes * 60;
+};
+
+/**
+ * Returns where a long song was left, or null when it has no saved position
+ */
+export const getResumePosition = (
+  state: Pick<PlayerState, 'resumeThresholdMinutes' | 'resumePositions'>,
+  song: SongDto | null
+): number | null => {
+  if (song?.id === undefined || !isLongTrack(state, song)) return null;
+  return state.resumePositions[song.id] ?? null;
+};
+
+/**
+ * Determines whether the sleep timer stops playback once the current song ends
+ *
+ * In end-of-context mode that is the case when nothing from the album or
+ * playlist that is playing is left in the queue. Songs in "Next up" do not
+ * extend the album or playlist.
+ */
+export const shouldSleepAfterCurrentTrack = (
+  state: Pick<PlayerState, 'sleepTimer' | 'queue' | 'playContext'>
+): boolean => {
+  const { sleepTimer, queue, playContext } = state;
+  if (!sleepTimer) return false;
+
+  if (sleepTimer.mode === 'endOfTrack') return true;
+  if (sleepTimer.mode === 'endOfContext') {
+    const upcoming = queue[0];
+    return !upcoming || !playContext.some(song => song.id === upcoming.id);
+  }
+  return false;
+};
+
+/**
+ * Determines whether a song's stream was found to be missing
+ */
+export const isSongUnavailable = (
+  state: Pick<PlayerState, 'unavailableSongIds'>,
+  song: SongDto | null | undefined
+): boolean => {
+  return song?.id !== undefined && state.unavailableSongIds[song.id] === true;
+};
+
+const OTHER_SOURCE: PlaySource = { type: 'other' };
+const QUEUE_SOURCE: PlaySource = { type: 'queue' };
+const AUTOPLAY_SOURCE: PlaySource = { type: 'autoplay', name: 'Autoplay' };
+
+/**
+ * Resolves the source of a song reached by skipping forward or back
+ * 
+ * Songs that belong to the context that is playing keep that context's
+ * source; anything else was added to the queue by hand.
+ */
+const resolveSource = (state: PlayerState, song: SongDto): PlaySource => {
+  const isInContext = state.playContext.some(contextSong => contextSong.id === song.id);
+  return isInContext && state.playSource ? state.playSource : QUEUE_SOURCE;
+};
+
+/**
+ * The song that plays after the current one, with where it came from
+ */
+interface NextTrack {
+  song: SongDto;
+  source: PlaySource | null;
+  /** Changes to the lists the song is taken from */
+  changes: Partial<PlayerState>;
 }
 
+/**
+ * Picks the song that plays after the current one
+ *
+ * That is the head of the "Next up" list, or else the next song of the
+ * playing context, or else the start of the context again when repeating
+ * all, or else the first autoplay suggestion. Songs found to be missing are
+ * passed over.
+ */
+const selectNextTrack = (state: PlayerState): NextTrack | null => {
+  const { currentPlaylist, playContext, repeatMode, isShuffled } = state;
+  const isPlayable = (song: SongDto) => !isSongUnavailable(state, song);
+  const nextUp = state.nextUp.filter(isPlayable);
+  const queue = state.queue.filter(isPlayable);
+  const autoplayQueue = state.autoplayQueue.filter(isPlayable);
+  const contextSongs = (playContext.length > 0 ? playContext : currentPlaylist?.songs || []).filter(isPlayable);
+
+  if (nextUp.length > 0) {
+    const [song, ...newNextUp] = nextUp;
+    return { song, source: QUEUE_SOURCE, changes: { nextUp: newNextUp } };
+  }
+
+  if (queue.length > 0) {
+    const [song, ...newQueue] = queue;
+    return { song, source: resolveSource(state, song), changes: { queue: newQueue } };
+  }
+
+  if (repeatMode === 'all' && contextSongs.length > 0) {
+    if (isShuffled) {
+      // Each round is shuffled anew, with a seed that follows from the last
+      // one, so asking again before the round starts gives the same song
+      const shuffleState = buildShuffleState(contextSongs, nextShuffleSeed(state.shuffleSeed ?? 0));
+      const [song, ...rest] = shuffleState.queue;
+      return { song, source: state.playSource, changes: { ...shuffleState, queue: rest } };
+    }
+
+    const [song, ...rest] = contextSongs;
+    return { song, source: state.playSource, changes: { queue: rest } };
+  }
+
+  if (autoplayQueue.length > 0) {
+    const [song, ...newAutoplayQueue] = autoplayQueue;
+    return { song, source: AUTOPLAY_SOURCE, changes: { autoplayQueue: newAutoplayQueue } };
+  }
+
+  return null;
+};
+
+/**
+ * Returns the song that plays after the current one, the same one next() moves to
+ */
+export const getUpcomingSong = (state: PlayerState): SongDto | undefined => {
+  return selectNextTrack(state)?.song;
+};
+
 export const usePlayerStore = create<PlayerState>((set, get) => ({
   currentSong: null,
   currentPlaylist: null,
   queue: [],
+  nextUp: [],
+  backStack: [],
+  autoplayQueue: [],
+  playContext: [],
+  playSource: null,
+  currentSource: null,
+  repeatMode: 'off',
+  isShuffled: false,
+  shuffleSeed: null,
+  originalQueue: [],
+  crossfadeDuration: readStorage<number>(CROSSFADE_STORAGE_KEY, 0),
+  autoplay: readStorage<boolean>(AUTOPLAY_STORAGE_KEY, false),
+  normalizationMode: readStorage<NormalizationMode>(NORMALIZATION_STORAGE_KEY, 'off'),
+  showMiniPlayerWaveform: readStorage<boolean>(MINI_PLAYER_WAVEFORM_STORAGE_KEY, false),
+  visualizerMode: readStorage<VisualizerMode>(VISUALIZER_STORAGE_KEY, 'off'),
+  playbackRateScope: savedPlaybackSpeed.scope === 'song' ? 'song' : 'global',
+  globalPlaybackRate: normalizePlaybackRate(savedPlaybackSpeed.globalRate ?? 1),
+  songPlaybackRates: savedPlaybackSpeed.songRates || {},
+  preservePitch: savedPlaybackSpeed.preservePitch ?? true,
+  userId: null,
+  abLoops: readStorage<Record<number, AbLoop>>(abLoopsStorageKey(null), {}),
+  resumeThresholdMinutes: readStorage<number>(RESUME_THRESHOLD_STORAGE_KEY, DEFAULT_RESUME_THRESHOLD_MINUTES),
+  resumePositions: readStorage<Record<number, number>>(resumePositionsStorageKey(null), {}),
+  sleepTimer: null,
+  sleepTimerRemaining: null,
+  sleepFadeLevel: 1,
+  isRemoteControl: false,
+  unavailableSongIds: readStorage<Record<number, true>>(UNAVAILABLE_SONGS_STORAGE_KEY, {}),
   isPlaying: false,
   volume: 0.7,
   progress: 0,
   duration: 0,
+  volumeBeforeMute: null,
   isPlayerVisible: true,
   isFullscreen: false,
+  isQueueVisible: false,
 
-  playSong: (song: SongDto) => {
-    const { isPlaying, currentSong } = get();
+  /**
+   * Plays a song, from the start unless a position to start at is given,
+   * for example to resume a long track where it was left
+   *
+   * A song picked from the queue or from the album or playlist that is
+   * playing keeps that context going. Any other song becomes a context of its
+   * own, so repeat all repeats that song rather than the previous context.
+   */
+  playSong: (song: SongDto, source?: PlaySource, startAt?: number) => {
+    const state = get();
+    const { isPlaying, currentSong, isShuffled } = state;
     
     if (currentSong?.id === song.id) {
-      if (!isPlaying) {
+      if (startAt !== undefined) {
+        debugLog(`playerStore: Resuming ${song.title} at ${startAt.toFixed(0)} s`);
+        set({ progress: startAt, isPlaying: true });
+      } else if (!isPlaying) {
         set({ isPlaying: true });
       }
       return;
     }
     
+    const isFromQueue = source?.type === 'queue' || source?.type === 'autoplay';
+    const isInContext = state.playContext.some(contextSong => contextSong.id === song.id);
+    
     console.log(`playerStore: Playing song: ${song.title}`);
-    set({ 
+    if (isFromQueue || isInContext) {
+      set({ 
+        currentSong: song,
+        backStack: pushBackStack(state, song),
+        currentSource: source || resolveSource(state, song),
+        isPlaying: true,
+        progress: startAt ?? 0,
+        isPlayerVisible: true
+      });
+      return;
+    }
+    
+    set({
       currentSong: song,
+      backStack: pushBackStack(state, song),
+      queue: [],
+      autoplayQueue: [],
+      playContext: [song],
+      playSource: source || OTHER_SOURCE,
+      currentSource: source || OTHER_SOURCE,
+      currentPlaylist: null,
       isPlaying: true,
-      progress: 0,
-      isPlayerVisible: true
+      progress: startAt ?? 0,
+      isPlayerVisible: true,
+      ...(isShuffled ? buildShuffleState([]) : {})
     });
   },
   
-  playQueue: (songs: SongDto[], startIndex: number) => {
+  playQueue: (songs: SongDto[], startIndex: number, source?: PlaySource) => {
     if (!songs.length || startIndex >= songs.length) {
       console.warn('Invalid queue or start index');
       return;
     }
     
-    const newQueue = [...songs];
-    const currentSong = newQueue[startIndex];
-    
-    newQueue.splice(startIndex, 1);
+    const currentSong = songs[startIndex];
+    // The chosen song is tried even if it was missing before, in case it is back
+    const newQueue = songs.filter((song, index) => index !== startIndex && !isSongUnavailable(get(), song));
     
     console.log(`playerStore: Playing queue starting with: ${currentSong.title}`);
     set({ 
       currentSong,
+      backStack: pushBackStack(get(), currentSong),
       queue: newQueue,
+      autoplayQueue: [],
+      playContext: [...songs],
+      playSource: source || OTHER_SOURCE,
+      currentSource: source || OTHER_SOURCE,
+      currentPlaylist: null,
       isPlaying: true,
       progress: 0,
-      isPlayerVisible: true
+      isPlayerVisible: true,
+      ...(get().isShuffled ? buildShuffleState(newQueue) : {})
     });
   },
   
@@ -105,8 +600,8 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     const { playQueue } = get();
     console.log(`playerStore: Playing playlist: ${playlist.name}`);
     
+    playQueue(playlist.songs, startIndex, { type: 'playlist', id: playlist.id, name: playlist.name });
     set({ currentPlaylist: playlist });
-    playQueue(playlist.songs, startIndex);
   },
   
   togglePlay: () => {
@@ -132,39 +627,33 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
   },
 
   next: () => {
-    const { queue, currentPlaylist } = get();
-    
-    if (queue.length > 0) {
-      const nextSong = queue[0];
-      const newQueue = [...queue];
-      newQueue.shift();
-      
-      console.log(`playerStore: Playing next song: ${nextSong.title}`);
-      set({ 
-        currentSong: nextSong,
-        queue: newQueue,
-        progress: 0,
-        isPlaying: true
-      });
-    } else if (currentPlaylist && currentPlaylist.songs && currentPlaylist.songs.length > 0) {
-      console.log('playerStore: Restarting playlist from beginning');
-      set({
-        currentSong: currentPlaylist.songs[0],
-        queue: currentPlaylist.songs.slice(1),
-        progress: 0,
-        isPlaying: true
-      });
-    } else {
+    const state = get();
+    const nextTrack = selectNextTrack(state);
+
+    if (!nextTrack) {
       console.log('playerStore: No more songs in queue');
       set({ 
         isPlaying: false,
         progress: 0
       });
+      return;
     }
+
+    const { song, source, changes } = nextTrack;
+    debugLog(`playerStore: Playing next song: ${song.title}`);
+    set({
+      currentSong: song,
+      backStack: pushBackStack(state, song),
+      currentSource: source,
+      ...changes,
+      progress: 0,
+      isPlaying: true
+    });
   },
   
   previous: () => {
-    const { progress, currentSong, currentPlaylist } = get();
+    const state = get();
+    const { progress, currentSong, currentSource } = state;
     
     if (progress > 3) {
       console.log('playerStore: Restarting current song');
@@ -172,32 +661,51 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
       return;
     }
     
-    if (currentPlaylist && currentPlaylist.songs && currentPlaylist.songs.length > 0) {
-      const currentIndex = currentPlaylist.songs.findIndex(
-        song => song.id === currentSong?.id
-      );
-      
-      if (currentIndex > 0) {
-        const previousSong = currentPlaylist.songs[currentIndex - 1];
-        const newQueue = [...currentPlaylist.songs];
-        newQueue.splice(0, currentIndex);
-        
-        console.log(`playerStore: Playing previous song: ${previousSong.title}`);
-        set({
-          currentSong: previousSong,
-          queue: newQueue,
-          progress: 0,
-          isPlaying: true
-        });
-      } else {
-        console.log('playerStore: Restarting first song in playlist');
-        set({ progress: 0 });
-      }
+    // Songs found to be missing since they played are passed over
+    const backStack = [...state.backStack];
+    let previousTrack = backStack.pop();
+    while (previousTrack && isSongUnavailable(state, previousTrack.song)) {
+      previousTrack = backStack.pop();
+    }
+    
+    if (!previousTrack || !currentSong) {
+      debugLog('playerStore: No previous song, restarting current song');
+      set({ progress: 0, backStack });
+      return;
     }
+    
+    // The current song plays next again, from the list it was played from
+    const returnTo = currentSource?.type === 'queue'
+      ? { nextUp: [currentSong, ...state.nextUp] }
+      : currentSource?.type === 'autoplay'
+        ? { autoplayQueue: [currentSong, ...state.autoplayQueue] }
+        : { queue: [currentSong, ...state.queue] };
+    
+    debugLog(`playerStore: Playing previous song: ${previousTrack.song.title}`);
+    set({
+      currentSong: previousTrack.song,
+      currentSource: previousTrack.source,
+      backStack,
+      ...returnTo,
+      progress: 0,
+      isPlaying: true
+    });
   },
   
   setVolume: (volume: number) => {
-    set({ volume: Math.max(0, Math.min(1, volume)) });
+    set({ volume: Math.max(0, Math.min(1, volume)), volumeBeforeMute: null });
+  },
+  
+  toggleMute: () => {
+    const { volume, volumeBeforeMute } = get();
+    
+    if (volume > 0) {
+      debugLog('playerStore: Mute');
+      set({ volume: 0, volumeBeforeMute: volume });
+    } else {
+      debugLog('playerStore: Unmute');
+      set({ volume: volumeBeforeMute || 0.7, volumeBeforeMute: null });
+    }
   },
   setProgress: (progress: number) => {
     set({ progress });
@@ -207,10 +715,310 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     set({ duration });
   },
   
+  toggleShuffle: () => {
+    const { isShuffled, currentSong, queue, originalQueue } = get();
+    
+    if (isShuffled) {
+      debugLog('playerStore: Shuffle off');
+      set({
+        isShuffled: false,
+        queue: restoreOriginalOrder(originalQueue, queue, getSongKey),
+        shuffleSeed: null,
+        originalQueue: []
+      });
+      return;
+    }
+    
+    debugLog('playerStore: Shuffle on');
+    if (currentSong) {
+      set({ isShuffled: true, ...buildShuffleState(queue) });
+    } else {
+      set({ isShuffled: true });
+    }
+  },
+  
+  setRepeatMode: (mode: RepeatMode) => {
+    debugLog(`playerStore: Repeat mode: ${mode}`);
+    set({ repeatMode: mode });
+  },
+  
+  cycleRepeatMode: () => {
+    const { repeatMode, setRepeatMode } = get();
+    const nextIndex = (REPEAT_MODES.indexOf(repeatMode) + 1) % REPEAT_MODES.length;
+    setRepeatMode(REPEAT_MODES[nextIndex]);
+  },
+  
+  setCrossfadeDuration: (seconds: number) => {
+    const crossfadeDuration = Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds));
+    writeStorage(CROSSFADE_STORAGE_KEY, crossfadeDuration);
+    set({ crossfadeDuration });
+  },
+
+  setAutoplay: (enabled: boolean) => {
+    writeStorage(AUTOPLAY_STORAGE_KEY, enabled);
+    debugLog(`playerStore: Autoplay ${enabled ? 'on' : 'off'}`);
+    set(enabled ? { autoplay: true } : { autoplay: false, autoplayQueue: [] });
+  },
+
+  setNormalizationMode: (mode: NormalizationMode) => {
+    debugLog(`playerStore: Normalization mode set to ${mode}`);
+    writeStorage(NORMALIZATION_STORAGE_KEY, mode);
+    set({ normalizationMode: mode });
+  },
+
+  setShowMiniPlayerWaveform: (show: boolean) => {
+    writeStorage(MINI_PLAYER_WAVEFORM_STORAGE_KEY, show);
+    set({ showMiniPlayerWaveform: show });
+  },
+
+  setVisualizerMode: (mode: VisualizerMode) => {
+    writeStorage(VISUALIZER_STORAGE_KEY, mode);
+    set({ visualizerMode: mode });
+  },
+
+  /**
+   * Sets the playback rate, for the current song or for all songs depending on the scope
+   *
+   * A per-song rate of 1× is removed rather than stored.
+   */
+  setPlaybackRate: (rate: number) => {
+    const state = get();
+    const playbackRate = normalizePlaybackRate(rate);
+
+    if (state.playbackRateScope === 'song') {
+      const songId = state.currentSong?.id;
+      if (songId === undefined) return;
+
+      const songPlaybackRates = { ...state.songPlaybackRates };
+      if (playbackRate === 1) {
+        delete songPlaybackRates[songId];
+      } else {
+        songPlaybackRates[songId] = playbackRate;
+      }
+
+      set({ songPlaybackRates });
+    } else {
+      set({ globalPlaybackRate: playbackRate });
+    }
+
+    savePlaybackSpeed(get());
+  },
+
+  /**
+   * Switches between per-song and global rates, keeping the current song at
+   * the rate it is playing at
+   */
+  setPlaybackRateScope: (scope: PlaybackRateScope) => {
+    const state = get();
+    if (state.playbackRateScope === scope) return;
+
+    const currentRate = getPlaybackRate(state, state.currentSong);
+    debugLog(`playerStore: Playback rate scope set to ${scope}`);
+    set({ playbackRateScope: scope });
+    get().setPlaybackRate(currentRate);
+  },
+
+  setPreservePitch: (preservePitch: boolean) => {
+    set({ preservePitch });
+    savePlaybackSpeed(get());
+  },
+
+  /**
+   * Loads the A–B loops and saved positions of a user, or of nobody when signed out
+   */
+  loadUserData: (userId: number | null) => {
+    debugLog(`playerStore: Loading loops and saved positions for user ${userId ?? 'guest'}`);
+    set({
+      userId,
+      abLoops: readStorage<Record<number, AbLoop>>(abLoopsStorageKey(userId), {}),
+      resumePositions: readStorage<Record<number, number>>(resumePositionsStorageKey(userId), {})
+    });
+  },
+
+  /**
+   * Sets loop point A of the current song, at the current position by default
+   *
+   * An existing point B is kept if it is still far enough after the new A.
+   */
+  setLoopStart: (time?: number) => {
+    const { currentSong, abLoops, progress, userId } = get();
+    if (currentSong?.id === undefined) return;
+
+    const start = Math.max(0, time ?? progress);
+    const previousEnd = abLoops[currentSong.id]?.end ?? null;
+    const end = previousEnd !== null && previousEnd - start >= MIN_LOOP_SECONDS ? previousEnd : null;
+    const updated = { ...abLoops, [currentSong.id]: { start, end } };
+
+    debugLog(`playerStore: Loop start set to ${start.toFixed(1)} s`);
+    writeStorage(abLoopsStorageKey(userId), updated);
+    set({ abLoops: updated });
+  },
+
+  /**
+   * Sets loop point B of the current song, at the current position by default
+   *
+   * Without point A the loop starts at the beginning of the song, and a B
+   * before A swaps the two. Loops shorter than MIN_LOOP_SECONDS are ignored.
+   */
+  setLoopEnd: (time?: number) => {
+    const { currentSong, abLoops, progress, userId } = get();
+    if (currentSong?.id === undefined) return;
+
+    const pointA = abLoops[currentSong.id]?.start ?? 0;
+    const pointB = time ?? progress;
+    const start = Math.min(pointA, pointB);
+    const end = Math.max(pointA, pointB);
+
+    if (end - start < MIN_LOOP_SECONDS) {
+      debugLog('playerStore: Loop too short, ignoring loop end');
+      return;
+    }
+
+    const updated = { ...abLoops, [currentSong.id]: { start, end } };
+
+    debugLog(`playerStore: Looping ${start.toFixed(1)} s to ${end.toFixed(1)} s`);
+    writeStorage(abLoopsStorageKey(userId), updated);
+    set({ abLoops: updated });
+  },
+
+  clearLoop: () => {
+    const { currentSong, abLoops, userId } = get();
+    if (currentSong?.id === undefined || !abLoops[currentSong.id]) return;
+
+    const updated = { ...abLoops };
+    delete updated[currentSong.id];
+
+    debugLog('playerStore: Clearing loop');
+    writeStorage(abLoopsStorageKey(userId), updated);
+    set({ abLoops: updated });
+  },
+
+  setResumeThreshold: (minutes: number) => {
+    const resumeThresholdMinutes = Math.max(0, minutes);
+    debugLog(`playerStore: Remembering positions of tracks from ${resumeThresholdMinutes} minutes`);
+    writeStorage(RESUME_THRESHOLD_STORAGE_KEY, resumeThresholdMinutes);
+    set({ resumeThresholdMinutes });
+  },
+
+  saveResumePosition: (songId: number, position: number) => {
+    const { userId } = get();
+    const resumePositions = { ...get().resumePositions, [songId]: position };
+    writeStorage(resumePositionsStorageKey(userId), resumePositions);
+    set({ resumePositions });
+  },
+
+  clearResumePosition: (songId: number) => {
+    const { resumePositions, userId } = get();
+    if (resumePositions[songId] === undefined) return;
+
+    const updated = { ...resumePositions };
+    delete updated[songId];
+    writeStorage(resumePositionsStorageKey(userId), updated);
+    set({ resumePositions: updated });
+  },
+
+  clearResumePositions: () => {
+    debugLog('playerStore: Clearing saved positions');
+    writeStorage(resumePositionsStorageKey(get().userId), {});
+    set({ resumePositions: {} });
+  },
+
+  /**
+   * Starts the sleep timer, replacing one that is already running
+   *
+   * @param {SleepTimerMode} mode - When playback should stop
+   * @param {number} minutes - Minutes until playback stops, for duration mode
+   */
+  startSleepTimer: (mode: SleepTimerMode, minutes: number = 0) => {
+    if (mode === 'duration' && minutes <= 0) return;
+
+    debugLog(`playerStore: Sleep timer set (${mode === 'duration' ? `${minutes} min` : mode})`);
+    set({
+      sleepTimer: {
+        mode,
+        endsAt: mode === 'duration' ? Date.now() + minutes * 60 * 1000 : null
+      },
+      sleepTimerRemaining: null,
+      sleepFadeLevel: 1
+    });
+
+    if (!sleepTimerInterval) {
+      sleepTimerInterval = setInterval(tickSleepTimer, SLEEP_TICK_MS);
+    }
+    tickSleepTimer();
+  },
+
+  /**
+   * Adds minutes to a running sleep timer
+   *
+   * A timer waiting for the end of a song becomes a plain countdown from the
+   * time left in that song. Timers that are not counting down yet cannot be
+   * extended.
+   */
+  extendSleepTimer: (minutes: number) => {
+    const { sleepTimer, sleepTimerRemaining } = get();
+    if (!sleepTimer || sleepTimerRemaining === null) return;
+
+    const endsAt = sleepTimer.mode === 'duration' && sleepTimer.endsAt !== null
+      ? sleepTimer.endsAt
+      : Date.now() + sleepTimerRemaining * 1000;
+
+    debugLog(`playerStore: Sleep timer extended by ${minutes} min`);
+    set({ sleepTimer: { mode: 'duration', endsAt: endsAt + minutes * 60 * 1000 } });
+    tickSleepTimer();
+  },
+
+  cancelSleepTimer: () => {
+    if (sleepTimerInterval) {
+      clearInterval(sleepTimerInterval);
+      sleepTimerInterval = null;
+    }
+
+    if (get().sleepTimer) {
+      debugLog('playerStore: Sleep timer cancelled');
+    }
+    set({ sleepTimer: null, sleepTimerRemaining: null, sleepFadeLevel: 1 });
+  },
+  
+  /**
+   * Remembers that a song's file is missing, so playback skips it
+   */
+  markSongUnavailable: (songId: number) => {
+    const { unavailableSongIds } = get();
+    if (unavailableSongIds[songId]) return;
+
+    debugLog(`playerStore: Marking song ${songId} as unavailable`);
+    const updated: Record<number, true> = { ...unavailableSongIds, [songId]: true };
+    writeStorage(UNAVAILABLE_SONGS_STORAGE_KEY, updated);
+    set({ unavailableSongIds: updated });
+  },
+
+  markSongAvailable: (songId: number) => {
+    const { unavailableSongIds } = get();
+    if (!unavailableSongIds[songId]) return;
+
+    debugLog(`playerStore: Song ${songId} is available again`);
+    const updated = { ...unavailableSongIds };
+    delete updated[songId];
+    writeStorage(UNAVAILABLE_SONGS_STORAGE_KEY, updated);
+    set({ unavailableSongIds: updated });
+  },
+
+  /**
+   * Adds a song to the end of "Next up", so it plays before the rest of the
+   * album or playlist
+   */
   addToQueue: (song: SongDto) => {
-    const { queue } = get();
     console.log(`playerStore: Adding to queue: ${song.title}`);
-    set({ queue: [...queue, song] });
+    set({ nextUp: [...get().nextUp, song] });
+  },
+
+  /**
+   * Adds a song to the front of "Next up", so it plays right after the current song
+   */
+  playNext: (song: SongDto) => {
+    debugLog(`playerStore: Playing next: ${song.title}`);
+    set({ nextUp: [song, ...get().nextUp] });
   },
   
   removeFromQueue: (index: number) => {
@@ -224,26 +1032,71 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     }
   },
 
+  removeFromNextUp: (index: number) => {
+    const { nextUp } = get();
+    if (index >= 0 && index < nextUp.length) {
+      debugLog(`playerStore: Removing from next up: ${nextUp[index].title}`);
+      set({ nextUp: nextUp.filter((_, i) => i !== index) });
+    }
+  },
+
   clearQueue: () => {
     console.log('playerStore: Clearing queue');
-    set({ queue: [] });
+    set({ queue: [], originalQueue: [] });
+  },
+
+  clearNextUp: () => {
+    debugLog('playerStore: Clearing next up');
+    set({ nextUp: [] });
+  },
+
+  /**
+   * Appends suggestions that play once the queue has run out
+   */
+  addAutoplaySongs: (songs: SongDto[]) => {
+    if (!get().autoplay || songs.length === 0) return;
+
+    debugLog(`playerStore: Adding ${songs.length} autoplay songs`);
+    set({ autoplayQueue: [...get().autoplayQueue, ...songs] });
+  },
+
+  removeFromAutoplayQueue: (index: number) => {
+    const { autoplayQueue } = get();
+    if (index >= 0 && index < autoplayQueue.length) {
+      debugLog(`playerStore: Removing from autoplay: ${autoplayQueue[index].title}`);
+      set({ autoplayQueue: autoplayQueue.filter((_, i) => i !== index) });
+    }
   },
   
   updateQueueOrder: (newQueue: SongDto[]) => {
     console.log('playerStore: Updating queue order');
     set({ queue: newQueue });
   },
+
+  updateNextUpOrder: (newNextUp: SongDto[]) => {
+    debugLog('playerStore: Updating next up order');
+    set({ nextUp: newNextUp });
+  },
   
   stopAndClosePlayer: () => {
     console.log('playerStore: Stopping and closing player');
+    get().cancelSleepTimer();
     set({ 
       isPlaying: false,
       currentSong: null,
       currentPlaylist: null,
       queue: [],
+      nextUp: [],
+      backStack: [],
+      autoplayQueue: [],
+      playContext: [],
+      playSource: null,
+      currentSource: null,
+      originalQueue: [],
       progress: 0,
       isPlayerVisible: false,
-      isFullscreen: false
+      isFullscreen: false,
+      isQueueVisible: false
     });
   },
 
@@ -267,8 +1120,57 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     } else {
       set({ isFullscreen: !isFullscreen });
     }
+  },
+  
+  setQueueVisible: (isVisible: boolean) => {
+    set({ isQueueVisible: isVisible });
+  },
+  
+  toggleQueueVisibility: () => {
+    const { isQueueVisible, currentSong } = get();
+    
+    if (currentSong) {
+      set({ isQueueVisible: !isQueueVisible, isPlayerVisible: true });
+    }
   }
 }));
 
 export const usePlayerStoreSelector = <T>(selector: (state: PlayerState) => T) => 
   usePlayerStore(selector);
+
+/**
+ * Updates the sleep timer countdown and fade-out, and stops playback once a
+ * countdown runs out
+ *
+ * Timers that wait for the end of a song start counting down during the last
+ * song; stopping at its end is left to the playback engine.
+ */
+const tickSleepTimer = () => {
+  const state = usePlayerStore.getState();
+  const { sleepTimer } = state;
+  if (!sleepTimer) return;
+
+  let remaining: number | null = null;
+
+  if (sleepTimer.mode === 'duration' && sleepTimer.endsAt !== null) {
+    remaining = Math.max(0, (sleepTimer.endsAt - Date.now()) / 1000);
+
+    if (remaining === 0) {
+      debugLog('playerStore: Sleep timer finished');
+      state.pause();
+      state.cancelSleepTimer();
+      return;
+    }
+  } else if (shouldSleepAfterCurrentTrack(state) && state.duration > 0) {
+    remaining = Math.max(0, (state.duration - state.progress) / getPlaybackRate(state, state.currentSong));
+  }
+
+  const sleepTimerRemaining = remaining !== null ? Math.ceil(remaining) : null;
+  const sleepFadeLevel = remaining !== null && remaining < SLEEP_FADE_SECONDS
+    ? remaining / SLEEP_FADE_SECONDS
+    : 1;
+
+  if (sleepTimerRemaining !== state.sleepTimerRemaining || sleepFadeLevel !== state.sleepFadeLevel) {
+    usePlayerStore.setState({ sleepTimerRemaining, sleepFadeLevel });
+  }
+};
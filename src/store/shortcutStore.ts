@@ -0,0 +1,190 @@
+import { create } from 'zustand';
+import { readStorage, writeStorage, watchStorage } from '../utils/storage';
+
+export type ShortcutAction =
+  | 'togglePlay'
+  | 'seekForward'
+  | 'seekBackward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'toggleMute'
+  | 'next'
+  | 'previous'
+  | 'setLoopStart'
+  | 'setLoopEnd'
+  | 'clearLoop'
+  | 'toggleFullscreen'
+  | 'toggleQueue'
+  | 'focusSearch'
+  | 'showHelp';
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+/**
+ * Every remappable action with the label shown in the help overlay
+ */
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'togglePlay', label: 'Play / pause' },
+  { action: 'seekForward', label: 'Seek forward 5 seconds' },
+  { action: 'seekBackward', label: 'Seek back 5 seconds' },
+  { action: 'volumeUp', label: 'Volume up' },
+  { action: 'volumeDown', label: 'Volume down' },
+  { action: 'toggleMute', label: 'Mute / unmute' },
+  { action: 'next', label: 'Next song' },
+  { action: 'previous', label: 'Previous song' },
+  { action: 'setLoopStart', label: 'Set loop start (A)' },
+  { action: 'setLoopEnd', label: 'Set loop end (B)' },
+  { action: 'clearLoop', label: 'Clear loop' },
+  { action: 'toggleFullscreen', label: 'Toggle fullscreen player' },
+  { action: 'toggleQueue', label: 'Show / hide queue' },
+  { action: 'focusSearch', label: 'Focus search' },
+  { action: 'showHelp', label: 'Show keyboard shortcuts' }
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  togglePlay: 'Space',
+  seekForward: 'ArrowRight',
+  seekBackward: 'ArrowLeft',
+  volumeUp: 'ArrowUp',
+  volumeDown: 'ArrowDown',
+  toggleMute: 'm',
+  next: 'n',
+  previous: 'p',
+  setLoopStart: '[',
+  setLoopEnd: ']',
+  clearLoop: '\\',
+  toggleFullscreen: 'f',
+  toggleQueue: 'q',
+  focusSearch: '/',
+  showHelp: '?'
+};
+
+const storageKey = (userId: number | null) => `groovy.shortcuts.${userId ?? 'guest'}`;
+
+/**
+ * Normalizes a keyboard event key so it can be compared with a binding
+ *
+ * Letters are matched case-insensitively and the space bar is named "Space".
+ */
+export const normalizeKey = (key: string): string => {
+  if (key === ' ') return 'Space';
+  return key.length === 1 ? key.toLowerCase() : key;
+};
+
+/**
+ * Formats a binding for display, e.g. "m" becomes "M" and "ArrowUp" becomes "↑"
+ */
+export const formatKey = (key: string): string => {
+  const names: Record<string, string> = {
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    Escape: 'Esc'
+  };
+  return names[key] || (key.length === 1 ? key.toUpperCase() : key);
+};
+
+/**
+ * Interface defining the keyboard shortcut state and actions
+ *
+ * This store manages:
+ * - The key bound to every shortcut action, saved per user
+ * - Remapping of bindings from the help overlay
+ * - Visibility of the help overlay
+ */
+interface ShortcutState {
+  userId: number | null;
+  bindings: ShortcutBindings;
+  isHelpOpen: boolean;
+  capturingAction: ShortcutAction | null;
+
+  loadBindings: (userId: number | null) => void;
+  setBinding: (action: ShortcutAction, key: string) => void;
+  resetBindings: () => void;
+  getActionForKey: (key: string) => ShortcutAction | null;
+  startCapture: (action: ShortcutAction) => void;
+  cancelCapture: () => void;
+  setHelpOpen: (isOpen: boolean) => void;
+  toggleHelp: () => void;
+}
+
+export const useShortcutStore = create<ShortcutState>((set, get) => ({
+  userId: null,
+  bindings: { ...DEFAULT_SHORTCUTS, ...readStorage<Partial<ShortcutBindings>>(storageKey(null), {}) },
+  isHelpOpen: false,
+  capturingAction: null,
+
+  loadBindings: (userId: number | null) => {
+    const saved = readStorage<Partial<ShortcutBindings>>(storageKey(userId), {});
+    set({
+      userId,
+      bindings: { ...DEFAULT_SHORTCUTS, ...saved },
+      capturingAction: null
+    });
+  },
+
+  /**
+   * Binds a key to an action
+   *
+   * If the key is already used by another action, the two actions swap keys
+   * so that no key ever triggers two actions.
+   */
+  setBinding: (action: ShortcutAction, key: string) => {
+    const { bindings, userId } = get();
+    const normalized = normalizeKey(key);
+    const newBindings = { ...bindings };
+
+    const conflicting = (Object.keys(bindings) as ShortcutAction[]).find(
+      other => other !== action && bindings[other] === normalized
+    );
+    if (conflicting) {
+      newBindings[conflicting] = bindings[action];
+    }
+    newBindings[action] = normalized;
+
+    writeStorage(storageKey(userId), newBindings);
+    set({ bindings: newBindings, capturingAction: null });
+  },
+
+  resetBindings: () => {
+    const { userId } = get();
+    writeStorage(storageKey(userId), DEFAULT_SHORTCUTS);
+    set({ bindings: { ...DEFAULT_SHORTCUTS }, capturingAction: null });
+  },
+
+  getActionForKey: (key: string) => {
+    const { bindings } = get();
+    const normalized = normalizeKey(key);
+    const match = (Object.keys(bindings) as ShortcutAction[]).find(
+      action => bindings[action] === normalized
+    );
+    return match || null;
+  },
+
+  startCapture: (action: ShortcutAction) => {
+    set({ capturingAction: action });
+  },
+
+  cancelCapture: () => {
+    set({ capturingAction: null });
+  },
+
+  setHelpOpen: (isOpen: boolean) => {
+    set({ isHelpOpen: isOpen, capturingAction: null });
+  },
+
+  toggleHelp: () => {
+    const { isHelpOpen, setHelpOpen } = get();
+    setHelpOpen(!isHelpOpen);
+  }
+}));
+
+// Bindings changed in another tab are picked up, so saving here does not undo them
+watchStorage(
+  () => storageKey(useShortcutStore.getState().userId),
+  () => {
+    const { userId, loadBindings } = useShortcutStore.getState();
+    loadBindings(userId);
+  }
+);
@@ -57,6 +57,8 @@ export interface SongDto {
   artistName?: string;
   genre?: string;
   releaseDate?: string;
+  /** Plain text or LRC with time tags */
+  lyrics?: string;
 }
 
 export interface AlbumDto {
@@ -79,6 +81,26 @@ export interface PlaylistDto {
   songs?: SongDto[];
 }
 
+// ==================== Playback Types ====================
+
+export type PlaySourceType = 'album' | 'playlist' | 'search' | 'queue' | 'history' | 'autoplay' | 'other';
+
+/**
+ * Where a song was started from, e.g. an album page or a search result
+ */
+export interface PlaySource {
+  type: PlaySourceType;
+  id?: number;
+  name?: string;
+}
+
+export interface ListeningHistoryEntry {
+  id: string;
+  song: SongDto;
+  playedAt: string;
+  source: PlaySource;
+}
+
 // ==================== API Types ====================
 
 export interface ApiResponse<T> {
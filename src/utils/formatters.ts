@@ -15,6 +15,16 @@ export const formatDuration = (seconds: number): string => {
   return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
 };
 
+/**
+ * Formats a playback rate, e.g. 1.25 becomes "1.25×" and 1 becomes "1×"
+ * 
+ * @param {number} rate - Playback rate
+ * @returns {string} Formatted rate with a multiplication sign
+ */
+export const formatPlaybackRate = (rate: number): string => {
+  return `${Number(rate.toFixed(2))}×`;
+};
+
 /**
  * Formats date strings to localized format
  * 
@@ -0,0 +1,93 @@
+/**
+ * Minimal key-value access to IndexedDB for caches that are too large for
+ * local storage
+ *
+ * Every object store used by the app is listed here so they are all created
+ * when the database is first opened or upgraded. Like the local storage
+ * helpers, all operations are best-effort: failures resolve to a fallback
+ * instead of rejecting.
+ */
+
+const DB_NAME = 'groovy';
+const DB_VERSION = 1;
+
+export const IDB_STORES = {
+  waveforms: 'waveforms'
+} as const;
+
+export type IdbStoreName = typeof IDB_STORES[keyof typeof IDB_STORES];
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(IDB_STORES).forEach(storeName => {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    });
+  }
+
+  return dbPromise;
+};
+
+/**
+ * Reads a value from an IndexedDB object store
+ *
+ * @param {IdbStoreName} storeName - Object store to read from
+ * @param {IDBValidKey} key - Key of the value
+ * @returns {Promise<T | null>} The stored value, or null if it is missing or cannot be read
+ */
+export const idbGet = async <T>(storeName: IdbStoreName, key: IDBValidKey): Promise<T | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    try {
+      const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+      request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+};
+
+/**
+ * Writes a value to an IndexedDB object store
+ *
+ * @param {IdbStoreName} storeName - Object store to write to
+ * @param {IDBValidKey} key - Key of the value
+ * @param {T} value - Value to store
+ */
+export const idbPut = async <T>(storeName: IdbStoreName, key: IDBValidKey, value: T): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  return new Promise(resolve => {
+    try {
+      const transaction = db.transaction(storeName, 'readwrite');
+      transaction.objectStore(storeName).put(value, key);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => resolve();
+      transaction.onabort = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+};
@@ -0,0 +1,12 @@
+/**
+ * Logs a message about what the app is doing, in development builds only
+ *
+ * Production builds stay quiet, so the console only shows warnings and errors.
+ *
+ * @param {...unknown} args - Values passed on to console.log
+ */
+export const debugLog = (...args: unknown[]): void => {
+  if (import.meta.env.DEV) {
+    console.log(...args);
+  }
+};
@@ -0,0 +1,200 @@
+/**
+ * Loudness measurement following ITU-R BS.1770 (the basis of LUFS)
+ *
+ * The signal is K-weighted, split into 400 ms blocks overlapping by 75%, and
+ * the mean power of the blocks is averaged after two gates: an absolute gate
+ * at -70 LUFS that drops silence, and a relative gate 10 LU below the
+ * ungated level that drops quiet passages.
+ */
+
+interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * The parts of a decoded track that analysis reads, so plain channel data
+ * handed to a worker can be analysed as well as an AudioBuffer
+ */
+export type AudioSamples = Pick<AudioBuffer, 'sampleRate' | 'numberOfChannels' | 'length' | 'getChannelData'>;
+
+export interface LoudnessMeasurement {
+  /** Integrated loudness in LUFS */
+  loudness: number;
+  /** Highest absolute sample value, 1 being full scale */
+  peak: number;
+}
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_OVERLAP = 0.75;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+/**
+ * First K-weighting stage: a high shelf modelling the acoustic effect of the head
+ *
+ * The filter parameters are those of the 48 kHz reference filter, mapped to
+ * the given sample rate the same way libebur128 does.
+ */
+const highShelf = (sampleRate: number): BiquadCoefficients => {
+  const gain = 3.999843853973347;
+  const q = 0.7071752369554196;
+  const frequency = 1681.974450955533;
+
+  const k = Math.tan(Math.PI * frequency / sampleRate);
+  const vh = Math.pow(10, gain / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const a0 = 1 + k / q + k * k;
+
+  return {
+    b0: (vh + vb * k / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - vb * k / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0
+  };
+};
+
+/**
+ * Second K-weighting stage: a high pass that ignores inaudible low frequencies
+ */
+const highPass = (sampleRate: number): BiquadCoefficients => {
+  const q = 0.5003270373238773;
+  const frequency = 38.13547087602444;
+
+  const k = Math.tan(Math.PI * frequency / sampleRate);
+  const a0 = 1 + k / q + k * k;
+
+  return {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0
+  };
+};
+
+/**
+ * Runs a biquad filter over the samples in place
+ */
+const applyFilter = (samples: Float32Array, c: BiquadCoefficients) => {
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = c.b0 * x + c.b1 * x1 + c.b2 * x2 - c.a1 * y1 - c.a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    samples[i] = y;
+  }
+};
+
+const powerToLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+
+/**
+ * Measures the integrated loudness and sample peak of a decoded track
+ *
+ * Every channel is weighted equally, which matches the standard for mono
+ * and stereo material.
+ *
+ * @param {AudioSamples} buffer - The decoded track
+ * @returns {LoudnessMeasurement | null} The measurement, or null if the track is silent or too short
+ */
+export const measureLoudness = (buffer: AudioSamples): LoudnessMeasurement | null => {
+  const { sampleRate, numberOfChannels, length } = buffer;
+  const blockSize = Math.round(BLOCK_SECONDS * sampleRate);
+  const hopSize = Math.round(blockSize * (1 - BLOCK_OVERLAP));
+
+  if (length < blockSize) return null;
+
+  const blockCount = Math.floor((length - blockSize) / hopSize) + 1;
+  const blockPowers = new Float64Array(blockCount);
+  const shelf = highShelf(sampleRate);
+  const pass = highPass(sampleRate);
+  let peak = 0;
+
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const samples = new Float32Array(buffer.getChannelData(channel));
+
+    for (let i = 0; i < samples.length; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+
+    applyFilter(samples, shelf);
+    applyFilter(samples, pass);
+
+    // Sum of squares per hop, so overlapping blocks can be added up from hops
+    const hopCount = Math.floor(length / hopSize);
+    const hopSums = new Float64Array(hopCount);
+    for (let hop = 0; hop < hopCount; hop++) {
+      let sum = 0;
+      const end = (hop + 1) * hopSize;
+      for (let i = hop * hopSize; i < end; i++) {
+        sum += samples[i] * samples[i];
+      }
+      hopSums[hop] = sum;
+    }
+
+    const hopsPerBlock = Math.round(blockSize / hopSize);
+    for (let block = 0; block < blockCount; block++) {
+      let sum = 0;
+      for (let hop = block; hop < block + hopsPerBlock && hop < hopCount; hop++) {
+        sum += hopSums[hop];
+      }
+      blockPowers[block] += sum / blockSize;
+    }
+  }
+
+  const gatedMean = (threshold: number): number => {
+    let sum = 0;
+    let count = 0;
+
+    blockPowers.forEach(power => {
+      if (power > 0 && powerToLoudness(power) > threshold) {
+        sum += power;
+        count++;
+      }
+    });
+
+    return count > 0 ? sum / count : 0;
+  };
+
+  const absoluteGated = gatedMean(ABSOLUTE_GATE_LUFS);
+  if (absoluteGated === 0) return null;
+
+  const relativeGated = gatedMean(
+    Math.max(ABSOLUTE_GATE_LUFS, powerToLoudness(absoluteGated) + RELATIVE_GATE_LU)
+  );
+  if (relativeGated === 0) return null;
+
+  return {
+    loudness: powerToLoudness(relativeGated),
+    peak
+  };
+};
+
+/**
+ * Combines the loudness of several tracks into the loudness of the whole set,
+ * weighting each track by its duration
+ *
+ * @param {{ loudness: number; duration: number }[]} tracks - Per-track loudness in LUFS and duration in seconds
+ * @returns {number | null} The combined loudness in LUFS, or null for an empty set
+ */
+export const combineLoudness = (tracks: { loudness: number; duration: number }[]): number | null => {
+  let weightedPower = 0;
+  let totalDuration = 0;
+
+  tracks.forEach(({ loudness, duration }) => {
+    const weight = duration > 0 ? duration : 1;
+    weightedPower += Math.pow(10, (loudness + 0.691) / 10) * weight;
+    totalDuration += weight;
+  });
+
+  return totalDuration > 0 ? powerToLoudness(weightedPower / totalDuration) : null;
+};
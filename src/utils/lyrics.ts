@@ -0,0 +1,171 @@
+/**
+ * A line of lyrics
+ */
+export interface LyricLine {
+  /** When the line is sung, in seconds; null for plain lyrics */
+  time: number | null;
+  text: string;
+}
+
+/**
+ * A problem found while parsing lyrics, with the 1-based line it is on
+ */
+export interface LyricsIssue {
+  line: number;
+  message: string;
+}
+
+export interface ParsedLyrics {
+  /** Whether the lines carry LRC time tags */
+  isSynced: boolean;
+  lines: LyricLine[];
+  issues: LyricsIssue[];
+}
+
+// [mm:ss], [mm:ss.xx] or [mm:ss:xx]
+const TIME_TAG_PATTERN = /^(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?$/;
+// ID tags such as [ar:Artist] or [offset:+250]
+const ID_TAG_PATTERN = /^([a-z#]+):(.*)$/i;
+// Word timings of enhanced LRC, which only whole lines are highlighted by
+const WORD_TAG_PATTERN = /<\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?>/g;
+
+/**
+ * Reads the time of an LRC time tag, without its brackets
+ *
+ * @returns {number | null} Seconds, or null when the tag is not a valid time
+ */
+const parseTimeTag = (tag: string): number | null => {
+  const match = TIME_TAG_PATTERN.exec(tag);
+  if (!match) return null;
+
+  const seconds = Number(match[2]);
+  if (seconds >= 60) return null;
+
+  // The fraction is in hundredths with two digits and in milliseconds with three
+  const fraction = match[3] ? Number(match[3]) / Math.pow(10, match[3].length) : 0;
+  return Number(match[1]) * 60 + seconds + fraction;
+};
+
+/**
+ * Parses lyrics, either plain text or LRC with time tags
+ *
+ * Lyrics count as LRC as soon as one line has a valid time tag. A line may
+ * carry several time tags when it is sung more than once, and the [offset]
+ * tag shifts every line. Malformed time tags, and in LRC the lines without a
+ * time tag, are reported as issues and left out; unknown ID tags are ignored,
+ * as LRC players do.
+ *
+ * @param {string} text - Lyrics as typed or uploaded
+ * @returns {ParsedLyrics} The lines, sorted by time for LRC, and the issues found
+ */
+export const parseLyrics = (text: string): ParsedLyrics => {
+  const rawLines = text.replace(/\r\n?/g, '\n').split('\n');
+  const timedLines: LyricLine[] = [];
+  const untimedLines: { line: number; text: string }[] = [];
+  const issues: LyricsIssue[] = [];
+  let offsetSeconds = 0;
+
+  rawLines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    let rest = rawLine.trim();
+    const times: number[] = [];
+    let hasTags = false;
+
+    while (rest.startsWith('[')) {
+      const close = rest.indexOf(']');
+      if (close === -1) {
+        issues.push({ line: lineNumber, message: `Tag "${rest}" is missing its closing bracket` });
+        rest = '';
+        break;
+      }
+
+      const tag = rest.slice(1, close).trim();
+      rest = rest.slice(close + 1).trim();
+      hasTags = true;
+
+      if (/^\d/.test(tag)) {
+        const time = parseTimeTag(tag);
+        if (time === null) {
+          issues.push({ line: lineNumber, message: `Malformed time tag "[${tag}]", expected [mm:ss.xx]` });
+        } else {
+          times.push(time);
+        }
+        continue;
+      }
+
+      const idTag = ID_TAG_PATTERN.exec(tag);
+      if (idTag && idTag[1].toLowerCase() === 'offset') {
+        const offset = Number(idTag[2].trim());
+        if (idTag[2].trim() === '' || isNaN(offset)) {
+          issues.push({ line: lineNumber, message: `Offset "${idTag[2].trim()}" is not a number of milliseconds` });
+        } else {
+          offsetSeconds = offset / 1000;
+        }
+      } else if (!idTag) {
+        // Not a tag after all, such as "[Chorus]", so it stays part of the text
+        rest = `[${tag}] ${rest}`.trim();
+        hasTags = false;
+        break;
+      }
+    }
+
+    const lineText = rest.replace(WORD_TAG_PATTERN, '').trim();
+
+    if (times.length > 0) {
+      times.forEach(time => timedLines.push({ time, text: lineText }));
+    } else if (!hasTags && lineText) {
+      untimedLines.push({ line: lineNumber, text: lineText });
+    }
+  });
+
+  if (timedLines.length === 0) {
+    return {
+      isSynced: false,
+      // Blank lines between verses are kept, only the surrounding ones are dropped
+      lines: text.trim() ? text.trim().split(/\r\n?|\n/).map(line => ({ time: null, text: line.trim() })) : [],
+      issues
+    };
+  }
+
+  untimedLines.forEach(({ line, text: lineText }) => {
+    issues.push({ line, message: `"${lineText}" has no time tag and is left out` });
+  });
+
+  // A positive offset shows the lyrics earlier
+  const lines = timedLines
+    .map(line => ({ ...line, time: Math.max(0, (line.time ?? 0) - offsetSeconds) }))
+    .sort((a, b) => a.time - b.time);
+
+  return {
+    isSynced: true,
+    lines,
+    issues: issues.sort((a, b) => a.line - b.line)
+  };
+};
+
+/**
+ * Finds the synced line being sung at a point in the song
+ *
+ * @param {LyricLine[]} lines - Lines sorted by time
+ * @param {number} time - Playback position in seconds
+ * @returns {number} Index of the line, or -1 before the first line
+ */
+export const getActiveLyricIndex = (lines: LyricLine[], time: number): number => {
+  let low = 0;
+  let high = lines.length - 1;
+  let active = -1;
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    const lineTime = lines[middle].time;
+
+    if (lineTime !== null && lineTime <= time) {
+      active = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return active;
+};
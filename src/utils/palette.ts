@@ -0,0 +1,26 @@
+/**
+ * Catppuccin Macchiato colors for drawing on canvas
+ *
+ * Mirrors the `macchiato` colors in tailwind.config.js, which class names
+ * cannot reach from canvas code.
+ */
+export const MACCHIATO = {
+  pink: '#f5bde6',
+  mauve: '#c6a0f6',
+  red: '#ed8796',
+  peach: '#f5a97f',
+  yellow: '#eed49f',
+  green: '#a6da95',
+  teal: '#8bd5ca',
+  sky: '#91d7e3',
+  sapphire: '#7dc4e4',
+  blue: '#8aadf4',
+  lavender: '#b7bdf8',
+  text: '#cad3f5',
+  subtext0: '#a5adcb',
+  overlay0: '#6e738d',
+  surface2: '#5b6078',
+  surface1: '#494d64',
+  surface0: '#363a4f',
+  base: '#24273a'
+} as const;
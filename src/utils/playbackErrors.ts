@@ -0,0 +1,62 @@
+/**
+ * Why a song could not be played
+ * - network: the stream could not be fetched, which may pass
+ * - notFound: the server no longer has the song's file
+ * - decode: the file was fetched but the browser cannot play it
+ * - autoplay: the browser blocked playback until the user interacts with the page
+ */
+export type PlaybackErrorKind = 'network' | 'notFound' | 'decode' | 'autoplay';
+
+/**
+ * Determines whether an error is worth retrying
+ */
+export const isTransientPlaybackError = (kind: PlaybackErrorKind): boolean => kind === 'network';
+
+/**
+ * Classifies the rejection of an audio element's play() call
+ *
+ * Only an autoplay block is reported this way; a failing stream also fires
+ * an error event on the element, which is classified with classifyMediaError.
+ *
+ * @param {unknown} error - Reason the play() promise was rejected with
+ * @returns {PlaybackErrorKind | null} 'autoplay', or null when the error event covers it
+ */
+export const classifyPlayRejection = (error: unknown): PlaybackErrorKind | null => {
+  return error instanceof DOMException && error.name === 'NotAllowedError' ? 'autoplay' : null;
+};
+
+/**
+ * Asks the server about a stream the browser could not open
+ */
+const probeStream = async (src: string): Promise<PlaybackErrorKind> => {
+  try {
+    const response = await fetch(src, { method: 'HEAD', cache: 'no-store' });
+
+    if (response.status === 404 || response.status === 410) return 'notFound';
+    // A signed stream URL that expired is refused, and works again once it is refreshed
+    if (response.status === 401 || response.status === 403) return 'network';
+    if (response.status >= 500 || response.status === 408 || response.status === 429) return 'network';
+    return 'decode';
+  } catch {
+    return 'network';
+  }
+};
+
+/**
+ * Classifies the error of an audio element
+ *
+ * Browsers report a missing file the same way as a format they cannot play,
+ * so in that case the stream is requested again to tell the two apart.
+ *
+ * @param {MediaError | null} error - The element's error
+ * @param {string} src - The stream the element was playing
+ * @returns {Promise<PlaybackErrorKind | null>} The kind of failure, or null when loading was aborted on purpose
+ */
+export const classifyMediaError = async (error: MediaError | null, src: string): Promise<PlaybackErrorKind | null> => {
+  if (!error || error.code === MediaError.MEDIA_ERR_ABORTED) return null;
+
+  if (error.code === MediaError.MEDIA_ERR_NETWORK || !navigator.onLine) return 'network';
+  if (error.code === MediaError.MEDIA_ERR_DECODE) return 'decode';
+
+  return src ? probeStream(src) : 'notFound';
+};
@@ -0,0 +1,110 @@
+/**
+ * Creates a new random seed for a shuffle order
+ *
+ * @returns {number} Unsigned 32-bit integer seed
+ */
+export const createShuffleSeed = (): number => {
+  return Math.floor(Math.random() * 0x100000000);
+};
+
+/**
+ * Mulberry32 pseudo-random number generator
+ *
+ * Produces a deterministic sequence of numbers in [0, 1) for a given seed,
+ * so the same seed always yields the same shuffle order.
+ *
+ * @param {number} seed - Unsigned 32-bit integer seed
+ * @returns {() => number} Generator function returning the next number in the sequence
+ */
+const mulberry32 = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Derives the seed of the next shuffle from the previous one
+ *
+ * A series of shuffles, such as the rounds of repeat all, can then be
+ * reproduced from the seed of the first one.
+ *
+ * @param {number} seed - Seed of the previous shuffle
+ * @returns {number} Unsigned 32-bit integer seed
+ */
+export const nextShuffleSeed = (seed: number): number => {
+  return Math.floor(mulberry32(seed)() * 0x100000000);
+};
+
+/**
+ * Shuffles a list using a seeded Fisher-Yates shuffle
+ *
+ * The input array is not modified. Shuffling the same list with the same
+ * seed always produces the same order.
+ *
+ * @param {T[]} items - Items to shuffle
+ * @param {number} seed - Seed that determines the resulting order
+ * @returns {T[]} A new array containing the shuffled items
+ */
+export const seededShuffle = <T>(items: T[], seed: number): T[] => {
+  const random = mulberry32(seed);
+  const result = [...items];
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+};
+
+/**
+ * Restores the original order of the items that remain in a shuffled list
+ *
+ * Items from the original list that are no longer present are dropped, and
+ * items that were added after shuffling are appended in their current order.
+ * Items are matched by key rather than by identity, as lists restored from
+ * storage or received from another tab hold copies of the same items. The
+ * result always holds the items of the remaining list.
+ *
+ * @param {T[]} original - The list in its original, unshuffled order
+ * @param {T[]} remaining - The items currently left in the shuffled list
+ * @param {(item: T) => unknown} getKey - Identifies an item, the item itself by default
+ * @returns {T[]} The remaining items in their original order
+ */
+export const restoreOriginalOrder = <T>(
+  original: T[],
+  remaining: T[],
+  getKey: (item: T) => unknown = item => item
+): T[] => {
+  // Positions in the remaining list of every key, in order
+  const positions = new Map<unknown, number[]>();
+  remaining.forEach((item, index) => {
+    const key = getKey(item);
+    positions.set(key, [...(positions.get(key) || []), index]);
+  });
+
+  const used = new Array<boolean>(remaining.length).fill(false);
+  const restored: T[] = [];
+
+  original.forEach(item => {
+    const index = positions.get(getKey(item))?.shift();
+    if (index !== undefined) {
+      restored.push(remaining[index]);
+      used[index] = true;
+    }
+  });
+
+  remaining.forEach((item, index) => {
+    if (!used[index]) {
+      restored.push(item);
+    }
+  });
+
+  return restored;
+};
@@ -0,0 +1,71 @@
+/**
+ * Reads a JSON value from local storage
+ *
+ * Falls back to the given default when the key is missing, the stored value
+ * cannot be parsed, or storage is not available.
+ *
+ * @param {string} key - Storage key
+ * @param {T} fallback - Value returned when nothing usable is stored
+ * @returns {T} The stored value or the fallback
+ */
+export const readStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Writes a value to local storage as JSON
+ *
+ * Storage errors (quota exceeded, private mode) are ignored so that
+ * persisting preferences never breaks the calling feature.
+ *
+ * @param {string} key - Storage key
+ * @param {T} value - Value to store
+ */
+export const writeStorage = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Preferences are best-effort
+  }
+};
+
+/**
+ * Removes a value from local storage
+ *
+ * @param {string} key - Storage key
+ */
+export const removeStorage = (key: string): void => {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Preferences are best-effort
+  }
+};
+
+/**
+ * Calls the listener whenever another tab changes a local storage key
+ *
+ * Browsers only fire the storage event in the other tabs, so stores that
+ * read their value once can pick up what another tab wrote before they
+ * overwrite it.
+ *
+ * @param {() => string} getKey - Returns the key to watch, read on every change
+ * @param {() => void} listener - Called after the key changed
+ * @returns {() => void} Stops watching
+ */
+export const watchStorage = (getKey: () => string, listener: () => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    // A null key means the whole storage was cleared
+    if (event.key === null || event.key === getKey()) {
+      listener();
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
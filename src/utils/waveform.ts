@@ -0,0 +1,42 @@
+import { AudioSamples } from './loudness';
+
+/**
+ * Number of peaks stored per song, enough for a sharp waveform across a wide screen
+ */
+export const WAVEFORM_PEAK_COUNT = 800;
+
+/**
+ * Reduces decoded audio to a list of peaks for drawing a waveform
+ *
+ * The track is split into equal buckets and each bucket keeps its highest
+ * absolute sample across all channels. Peaks are scaled so the loudest
+ * bucket is 1, which keeps quiet masters readable.
+ *
+ * @param {AudioSamples} buffer - The decoded track
+ * @param {number} count - Number of peaks to compute
+ * @returns {number[]} Peaks between 0 and 1
+ */
+export const computePeaks = (buffer: AudioSamples, count: number = WAVEFORM_PEAK_COUNT): number[] => {
+  const peaks = new Array<number>(count).fill(0);
+  const bucketSize = buffer.length / count;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+
+    for (let bucket = 0; bucket < count; bucket++) {
+      const start = Math.floor(bucket * bucketSize);
+      const end = Math.min(samples.length, Math.floor((bucket + 1) * bucketSize));
+      let peak = peaks[bucket];
+
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(samples[i]);
+        if (value > peak) peak = value;
+      }
+      peaks[bucket] = peak;
+    }
+  }
+
+  const max = Math.max(...peaks);
+  // Rounded so the cached peaks stay small
+  return max > 0 ? peaks.map(peak => Math.round((peak / max) * 1000) / 1000) : peaks;
+};
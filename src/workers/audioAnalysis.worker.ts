@@ -0,0 +1,40 @@
+/**
+ * Analyses decoded audio off the main thread
+ *
+ * Scanning a whole track for its peaks and loudness takes long enough to stall playback controls and
+ * animations, so the channel data is handed to this worker instead.
+ */
+
+import { measureLoudness, LoudnessMeasurement } from '../utils/loudness';
+import { computePeaks } from '../utils/waveform';
+
+export interface AudioAnalysisRequest {
+  id: number;
+  sampleRate: number;
+  /** One array per channel, all of the same length */
+  channels: Float32Array[];
+}
+
+export interface AudioAnalysisResponse {
+  id: number;
+  peaks: number[];
+  loudness: LoudnessMeasurement | null;
+}
+
+self.onmessage = (event: MessageEvent<AudioAnalysisRequest>) => {
+  const { id, sampleRate, channels } = event.data;
+
+  const samples = {
+    sampleRate,
+    numberOfChannels: channels.length,
+    length: channels[0]?.length ?? 0,
+    getChannelData: (channel: number) => channels[channel]
+  };
+
+  const response: AudioAnalysisResponse = {
+    id,
+    peaks: computePeaks(samples),
+    loudness: measureLoudness(samples)
+  };
+  self.postMessage(response);
+};